@@ -0,0 +1,82 @@
+/**
+ * Regression check for pixel grid detection on synthetic upscaled sprites.
+ *
+ *   npm run check:pixel-grid
+ *
+ * Exits with 1 when a grid is found with the wrong cell size, offset or cell count.
+ */
+import { detectPixelGrid, PixelGrid } from '../src/lib/pixel-grid';
+
+interface GridCase {
+  name: string;
+  cells: number;
+  cellSize: number;
+  offset: number;
+  // Pixels left over after the last cell, so the image is not a multiple of the cell size
+  extra: number;
+  noise: number;
+}
+
+const CASES: GridCase[] = [
+  { name: 'offset grid', cells: 32, cellSize: 24, offset: 7, extra: 7, noise: 0 },
+  { name: 'large cells', cells: 16, cellSize: 64, offset: 0, extra: 0, noise: 10 },
+  // Grids starting at the image edge must keep phase 0 even with pixels left over
+  { name: 'phase 0, 16px cells', cells: 32, cellSize: 16, offset: 0, extra: 3, noise: 20 },
+  { name: 'phase 0, 32px cells', cells: 16, cellSize: 32, offset: 0, extra: 3, noise: 20 },
+  { name: 'phase 0, 8px cells', cells: 64, cellSize: 8, offset: 0, extra: 3, noise: 20 },
+  { name: 'phase 0, 24px cells', cells: 32, cellSize: 24, offset: 0, extra: 3, noise: 20 }
+];
+
+function main(): number {
+  let failures = 0;
+  for (const gridCase of CASES) {
+    const size = gridCase.offset + gridCase.cells * gridCase.cellSize + gridCase.extra;
+    const grid = detectPixelGrid(renderSprite(gridCase, size), size, size);
+    const expected: PixelGrid = {
+      cellWidth: gridCase.cellSize,
+      cellHeight: gridCase.cellSize,
+      offsetX: gridCase.offset,
+      offsetY: gridCase.offset,
+      columns: gridCase.cells,
+      rows: gridCase.cells
+    };
+    const passed = grid !== null &&
+      (Object.keys(expected) as Array<keyof PixelGrid>).every(key => grid[key] === expected[key]);
+    if (!passed) failures++;
+    console.log(`${passed ? 'ok  ' : 'FAIL'} ${gridCase.name}: ${JSON.stringify(grid)}`);
+  }
+  return failures > 0 ? 1 : 0;
+}
+
+/**
+ * Random sprite scaled up by cellSize, on a white border, with per-pixel noise
+ */
+function renderSprite({ cells, cellSize, offset, noise }: GridCase, size: number): Uint8ClampedArray {
+  const random = createRandom(cells * 1000 + cellSize);
+  const colors = Array.from({ length: cells * cells }, () => [random() * 255, random() * 255, random() * 255]);
+  const rgba = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const cellX = Math.floor((x - offset) / cellSize);
+      const cellY = Math.floor((y - offset) / cellSize);
+      const inside = cellX >= 0 && cellY >= 0 && cellX < cells && cellY < cells;
+      const color = inside ? colors[cellY * cells + cellX] : [255, 255, 255];
+      const index = (y * size + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        rgba[index + channel] = color[channel] + (random() - 0.5) * noise;
+      }
+      rgba[index + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+process.exit(main());
@@ -0,0 +1,312 @@
+/**
+ * Batch pixelate image files from the command line using the same engine as the web UI.
+ *
+ *   npm run pixelate -- "art/**\/*.png" --out build/sprites --size 32x32 --palette pico-8
+ *
+ * Run with --help for all flags.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import fg from 'fast-glob';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { getDefaultPixelationOptions, pixelate, PixelationOptions } from '../src/lib/pixelation-core';
+import { getPalette, hexToRgb } from '../src/lib/palettes';
+import { parsePaletteFile } from '../src/lib/palette-formats';
+
+const USAGE = `Usage: npm run pixelate -- <input globs...> --out <dir> [options]
+
+Input and output:
+  -o, --out <dir>              Output directory (required)
+  -p, --preset <file.json>     JSON file with PixelationOptions; flags override it
+  -f, --format <png|jpg>       Output format (default: png)
+      --quality <1-100>        JPEG quality (default: 90)
+
+Pixelation:
+      --pixel-size <n>         Block size in source pixels
+      --size <WxH>             Target sprite size, e.g. 32x32 (switches to target sizing)
+      --fit <fit|fill|stretch> How the image is matched to --size
+      --anchor <position>      Crop/pad anchor, e.g. center, top-left
+      --brightness <n>         Brightness, -100 to 100
+      --contrast <n>           Contrast, -100 to 100
+      --saturation <n>         Saturation, -100 (grayscale) to 100
+      --gamma <n>              Gamma, 0.2 to 3 (above 1 brightens the midtones)
+      --hue <degrees>          Rotate hues around the color wheel
+      --sharpen <0-100>        Sharpen the source before pixelating
+      --posterize <levels>     Band each channel into 2-32 levels before pixelating
+      --sampling <mode>        average, median, mode, center or edge-weighted
+      --alpha-threshold <n>    Alpha (0-255) below which blocks become transparent; 0 keeps soft alpha
+      --matte <hex>            Flatten transparency onto this background color
+  -c, --colors <n>             Number of colors
+  -a, --algorithm <name>       kmeans, median-cut, octree or palette
+      --seed <n>               k-means seed
+      --max-iterations <n>     k-means iteration limit
+      --palette <id|file>      Built-in palette id or a palette file (implies --algorithm palette)
+      --color-space <name>     srgb, linear-rgb, cielab or oklab
+      --dither <name|none>     floyd-steinberg, atkinson, jarvis-judice-ninke, sierra, ordered or none
+      --matrix <name>          Ordered dither matrix: bayer-2x2, bayer-4x4, bayer-8x8, blue-noise
+      --dither-strength <0-1>  Dithering strength
+      --output <mode>          upscaled (source size) or native (one pixel per block)
+      --scale <n>              Integer upscale factor for native output
+      --cleanup <0-3>          Remove orphan pixels, diagonal doubles and small islands
+      --outline <hex|auto>     Outline the subject; 'auto' darkens the neighbouring color
+      --outline-inner          Draw the outline inside the subject instead of around it
+      --outline-4              Leave outline corners open (4-connectivity)
+      --outline-key <hex|auto> Find the subject by background color instead of alpha; 'auto' uses the top-left pixel
+      --lego                   Render as a LEGO mosaic
+      --brick-size <n>         LEGO brick size in output pixels
+
+  -h, --help                   Show this help
+`;
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+interface RgbaImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      format: { type: 'string', short: 'f' },
+      quality: { type: 'string' },
+      'pixel-size': { type: 'string' },
+      size: { type: 'string' },
+      fit: { type: 'string' },
+      anchor: { type: 'string' },
+      brightness: { type: 'string' },
+      contrast: { type: 'string' },
+      saturation: { type: 'string' },
+      gamma: { type: 'string' },
+      hue: { type: 'string' },
+      sharpen: { type: 'string' },
+      posterize: { type: 'string' },
+      sampling: { type: 'string' },
+      'alpha-threshold': { type: 'string' },
+      matte: { type: 'string' },
+      colors: { type: 'string', short: 'c' },
+      algorithm: { type: 'string', short: 'a' },
+      seed: { type: 'string' },
+      'max-iterations': { type: 'string' },
+      palette: { type: 'string' },
+      'color-space': { type: 'string' },
+      dither: { type: 'string' },
+      matrix: { type: 'string' },
+      'dither-strength': { type: 'string' },
+      output: { type: 'string' },
+      scale: { type: 'string' },
+      cleanup: { type: 'string' },
+      outline: { type: 'string' },
+      'outline-inner': { type: 'boolean' },
+      'outline-4': { type: 'boolean' },
+      'outline-key': { type: 'string' },
+      lego: { type: 'boolean' },
+      'brick-size': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0 || !values.out) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const format = values.format || 'png';
+  if (format !== 'png' && format !== 'jpg') {
+    throw new Error(`Unknown output format: ${format}`);
+  }
+  const quality = values.quality ? parseNumber(values.quality, 'quality') : 90;
+
+  // Preset first, then individual flags on top
+  const options: PixelationOptions = { ...getDefaultPixelationOptions() };
+  if (values.preset) {
+    Object.assign(options, JSON.parse(await readFile(values.preset, 'utf8')));
+  }
+
+  if (values['pixel-size']) options.pixelSize = parseNumber(values['pixel-size'], 'pixel-size');
+  if (values.size) {
+    const match = /^(\d+)x(\d+)$/i.exec(values.size);
+    if (!match) {
+      throw new Error(`Invalid --size "${values.size}", expected WxH`);
+    }
+    options.sizingMode = 'target';
+    options.targetWidth = Number(match[1]);
+    options.targetHeight = Number(match[2]);
+  }
+  if (values.fit) options.targetFit = parseChoice(values.fit, 'fit', ['fit', 'fill', 'stretch']);
+  if (values.anchor) {
+    options.cropAnchor = parseChoice(values.anchor, 'anchor', [
+      'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'
+    ]);
+  }
+  if (values.brightness) options.brightness = parseNumber(values.brightness, 'brightness');
+  if (values.contrast) options.contrast = parseNumber(values.contrast, 'contrast');
+  if (values.saturation) options.saturation = parseNumber(values.saturation, 'saturation');
+  if (values.gamma) options.gamma = parseNumber(values.gamma, 'gamma');
+  if (values.hue) options.hueRotation = parseNumber(values.hue, 'hue');
+  if (values.sharpen) options.sharpen = parseNumber(values.sharpen, 'sharpen');
+  if (values.posterize) options.posterizeLevels = parseNumber(values.posterize, 'posterize');
+  if (values.sampling) {
+    options.samplingMode = parseChoice(values.sampling, 'sampling', ['average', 'median', 'mode', 'center', 'edge-weighted']);
+  }
+  if (values['alpha-threshold']) options.alphaThreshold = parseNumber(values['alpha-threshold'], 'alpha-threshold');
+  if (values.matte) {
+    // Validate up front rather than failing on every file
+    hexToRgb(values.matte);
+    options.matteColor = values.matte;
+  }
+  if (values.colors) options.colorCount = parseNumber(values.colors, 'colors');
+  if (values.algorithm) {
+    options.algorithm = parseChoice(values.algorithm, 'algorithm', ['kmeans', 'median-cut', 'octree', 'palette']);
+  }
+  if (values.seed) options.seed = parseNumber(values.seed, 'seed');
+  if (values['max-iterations']) options.maxIterations = parseNumber(values['max-iterations'], 'max-iterations');
+  if (values.palette) {
+    options.algorithm = 'palette';
+    if (getPalette(values.palette)) {
+      options.paletteId = values.palette;
+    } else {
+      const palette = parsePaletteFile(new Uint8Array(await readFile(values.palette)), path.basename(values.palette));
+      options.customPalette = palette;
+      options.paletteId = palette.id;
+    }
+  }
+  if (values['color-space']) {
+    options.colorSpace = parseChoice(values['color-space'], 'color-space', ['srgb', 'linear-rgb', 'cielab', 'oklab']);
+  }
+  if (values.dither) {
+    if (values.dither === 'none') {
+      options.dithering = false;
+    } else {
+      options.dithering = true;
+      options.ditheringAlgorithm = parseChoice(values.dither, 'dither', [
+        'floyd-steinberg', 'atkinson', 'jarvis-judice-ninke', 'sierra', 'ordered'
+      ]);
+    }
+  }
+  if (values.matrix) {
+    options.orderedMatrix = parseChoice(values.matrix, 'matrix', ['bayer-2x2', 'bayer-4x4', 'bayer-8x8', 'blue-noise']);
+  }
+  if (values['dither-strength']) options.ditheringStrength = parseNumber(values['dither-strength'], 'dither-strength');
+  if (values.output) options.outputMode = parseChoice(values.output, 'output', ['upscaled', 'native']);
+  if (values.scale) options.outputScale = parseNumber(values.scale, 'scale');
+  if (values.cleanup) options.cleanupStrength = parseNumber(values.cleanup, 'cleanup');
+  if (values.outline !== undefined) {
+    options.outline = true;
+    if (values.outline !== 'auto') hexToRgb(values.outline);
+    options.outlineColor = values.outline;
+  }
+  if (values['outline-inner']) options.outlinePosition = 'inner';
+  if (values['outline-4']) options.outlineConnectivity = 4;
+  if (values['outline-key'] !== undefined) {
+    options.outlineSource = 'background';
+    if (values['outline-key'] !== 'auto') {
+      hexToRgb(values['outline-key']);
+      options.outlineBackgroundKey = values['outline-key'];
+    }
+  }
+  if (values.lego) options.legoEffect = true;
+  if (values['brick-size']) options.gridSize = parseNumber(values['brick-size'], 'brick-size');
+
+  const files = (await fg(positionals, { onlyFiles: true, caseSensitiveMatch: false }))
+    .filter(file => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort();
+  if (files.length === 0) {
+    console.error('No PNG or JPEG files matched the input globs');
+    return 1;
+  }
+
+  // Mirror the folder structure below the deepest directory shared by all inputs
+  const baseDir = commonDirectory(files);
+
+  let failed = 0;
+  for (const [index, file] of files.entries()) {
+    const relative = path.relative(baseDir, path.resolve(file));
+    const outputFile = path.join(values.out, path.dirname(relative), `${path.parse(file).name}.${format}`);
+    try {
+      await mkdir(path.dirname(outputFile), { recursive: true });
+      const source = decodeImage(await readFile(file), file);
+      const result = pixelate(source.data, source.width, source.height, options);
+      const usedColors = result.palette.filter(entry => entry.count > 0).length;
+      await writeFile(outputFile, encodeImage({ data: result.rgba, width: result.width, height: result.height }, format, quality));
+      console.log(`[${index + 1}/${files.length}] ${file} -> ${outputFile} (${result.width}x${result.height}, ${usedColors} colors)`);
+    } catch (error) {
+      failed++;
+      console.error(`[${index + 1}/${files.length}] ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`Done: ${files.length - failed} converted, ${failed} failed`);
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Decode a PNG or JPEG file into RGBA pixels
+ */
+function decodeImage(bytes: Buffer, fileName: string): RgbaImage {
+  if (path.extname(fileName).toLowerCase() === '.png') {
+    const png = PNG.sync.read(bytes);
+    return { data: png.data, width: png.width, height: png.height };
+  }
+  return jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+}
+
+/**
+ * Encode RGBA pixels as PNG or JPEG
+ */
+function encodeImage(image: RgbaImage, format: 'png' | 'jpg', quality: number): Buffer {
+  const data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.length);
+  if (format === 'jpg') {
+    return jpeg.encode({ data, width: image.width, height: image.height }, quality).data;
+  }
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = data;
+  return PNG.sync.write(png);
+}
+
+/**
+ * Deepest directory containing all of the given files
+ */
+function commonDirectory(files: string[]): string {
+  const dirs = files.map(file => path.dirname(path.resolve(file)).split(path.sep));
+  const common = dirs[0].slice();
+  for (const dir of dirs.slice(1)) {
+    let length = 0;
+    while (length < common.length && common[length] === dir[length]) length++;
+    common.length = length;
+  }
+  return common.join(path.sep) || path.sep;
+}
+
+function parseNumber(value: string, flag: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`--${flag} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseChoice<const T extends string>(value: string, flag: string, choices: readonly T[]): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new Error(`--${flag} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { applyAdjustments, ImageAdjustments } from '@/lib/adjustments';
+
+interface AdjustmentPreviewProps {
+  image: File;
+  adjustments: ImageAdjustments;
+}
+
+// Longest side of the preview; small enough to redraw on every slider move
+const PREVIEW_SIZE = 240;
+
+export default function AdjustmentPreview({ image, adjustments }: AdjustmentPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<ImageData | null>(null);
+
+  // Decode and shrink the image once per file
+  useEffect(() => {
+    let cancelled = false;
+    const imageUrl = URL.createObjectURL(image);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(imageUrl);
+      if (cancelled) return;
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      setSource(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => URL.revokeObjectURL(imageUrl);
+    img.src = imageUrl;
+
+    return () => {
+      cancelled = true;
+      setSource(null);
+    };
+  }, [image]);
+
+  const { brightness, contrast, saturation, gamma, hueRotation, sharpen, posterizeLevels } = adjustments;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !source) return;
+
+    const adjusted = applyAdjustments(source.data, source.width, source.height, {
+      brightness, contrast, saturation, gamma, hueRotation, sharpen, posterizeLevels
+    });
+    canvas.width = source.width;
+    canvas.height = source.height;
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(adjusted), source.width, source.height), 0, 0);
+  }, [source, brightness, contrast, saturation, gamma, hueRotation, sharpen, posterizeLevels]);
+
+  return (
+    <div className="flex justify-center rounded-md border border-border/50 bg-muted/30 p-2">
+      {source ? (
+        <canvas ref={canvasRef} className="max-w-full h-auto" aria-label="Adjusted image preview" />
+      ) : (
+        <p className="py-8 text-xs text-muted-foreground">Loading preview...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Download } from 'lucide-react';
+import { LegoPartCount } from '@/lib/lego';
+
+interface LegoPartsListProps {
+  parts: LegoPartCount[];
+}
+
+export default function LegoPartsList({ parts }: LegoPartsListProps) {
+  const total = parts.reduce((sum, part) => sum + part.count, 0);
+
+  const handleExport = () => {
+    const rows = ['Color,Hex,Quantity', ...parts.map(part => `"${part.name}",${part.color},${part.count}`)];
+    const blob = new Blob([rows.join('\n') + '\n'], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = `lego-parts-${Date.now()}.csv`;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-foreground">Parts List ({total} 1x1 plates)</Label>
+        <Button type="button" variant="outline" size="sm" onClick={handleExport}>
+          <Download className="h-3 w-3 mr-1" />
+          .csv
+        </Button>
+      </div>
+      <div className="max-h-48 overflow-y-auto rounded border">
+        {parts.map((part) => (
+          <div key={part.color} className="flex items-center gap-2 px-2 py-1 text-sm">
+            <span
+              className="h-4 w-4 rounded border border-black/10"
+              style={{ backgroundColor: part.color }}
+            />
+            <span className="flex-1 text-foreground">{part.name}</span>
+            <span className="text-muted-foreground">{part.count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Download } from 'lucide-react';
+import { PaletteEntry } from '@/lib/palettes';
+import { PALETTE_EXPORT_FORMATS, PaletteExportFormat, serializePalette } from '@/lib/palette-formats';
+
+interface PaletteExportProps {
+  palette: PaletteEntry[];
+}
+
+export default function PaletteExport({ palette }: PaletteExportProps) {
+  const handleExport = (format: PaletteExportFormat) => {
+    const { extension, mimeType } = PALETTE_EXPORT_FORMATS[format];
+    const content = serializePalette(palette, format);
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = `palette-${Date.now()}.${extension}`;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-foreground">Palette ({palette.length} colors)</Label>
+      <div className="flex flex-wrap gap-1">
+        {palette.map((entry) => (
+          <span
+            key={entry.color}
+            className="h-6 w-6 rounded border border-black/10"
+            style={{ backgroundColor: entry.color }}
+            title={`${entry.color} · ${entry.count} px`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PALETTE_EXPORT_FORMATS) as PaletteExportFormat[]).map((format) => (
+          <Button
+            key={format}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => handleExport(format)}
+            title={PALETTE_EXPORT_FORMATS[format].label}
+          >
+            <Download className="h-3 w-3 mr-1" />
+            .{PALETTE_EXPORT_FORMATS[format].extension}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
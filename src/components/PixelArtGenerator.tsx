@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,28 +8,61 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Download, Palette, RefreshCw, Settings, Upload, Image as ImageIcon } from 'lucide-react';
-import { generatePixelArtImage, ImageGenerationRequest } from '@/lib/gemini-image';
-import { convertToPixelArt, applyPixelationEffect, getDefaultPixelationOptions, PixelationOptions } from '@/lib/pixelation';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Check, Download, Palette, RefreshCw, Settings, Upload, X, Image as ImageIcon } from 'lucide-react';
+import {
+  ART_STYLES,
+  generateFallbackPixelArt,
+  generatePixelArtVariants,
+  getImageProvider,
+  IMAGE_PROVIDERS,
+  ImageGenerationRequest,
+  ImageGenerationResponse,
+  MAX_VARIANTS
+} from '@/lib/image-generation';
+import { GenerationError, ImageProviderId } from '@/lib/image-provider';
+import { convertToPixelArt, getDefaultPixelationOptions, PixelationOptions, PixelationStage, SPRITE_SIZE_OPTIONS } from '@/lib/pixelation';
 import { toast } from 'sonner';
 import Image from 'next/image';
 import { ThemeToggle } from './ThemeToggle';
 import ImageUpload from './ImageUpload';
 import PixelationSettings from './PixelationSettings';
+import PaletteExport from './PaletteExport';
+import LegoPartsList from './LegoPartsList';
+import { PaletteEntry } from '@/lib/palettes';
+import { LegoPartCount } from '@/lib/lego';
 import { StarsBackground } from '@/components/animate-ui/components/backgrounds/stars';
 
 export default function PixelArtGenerator() {
   const [prompt, setPrompt] = useState('');
   const [style, setStyle] = useState('16-bit retro gaming');
   const [size, setSize] = useState('32x32');
+  const [providerId, setProviderId] = useState<ImageProviderId>('gemini');
+  const [model, setModel] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
   const [apiKey, setApiKey] = useState('');
+  const [snapToGrid, setSnapToGrid] = useState(true);
+  const [useReferenceImage, setUseReferenceImage] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  // Candidates of the last multi-variant run, waiting for the user to pick
+  const [variants, setVariants] = useState<Array<{
+    id: string;
+    image: string | null;
+    error?: string;
+    selected: boolean;
+  }> | null>(null);
+  const [variantPrompt, setVariantPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generationHistory, setGenerationHistory] = useState<Array<{
     id: string;
     prompt: string;
     image: string;
     timestamp: Date;
+    // Drawn by the local pattern generator instead of the model
+    fromFallback?: boolean;
   }>>([]);
   const [showApiKeyField, setShowApiKeyField] = useState(false);
   
@@ -37,40 +70,42 @@ export default function PixelArtGenerator() {
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [pixelationOptions, setPixelationOptions] = useState<PixelationOptions>(getDefaultPixelationOptions());
   const [isPixelating, setIsPixelating] = useState(false);
+  const [pixelationProgress, setPixelationProgress] = useState<{ progress: number; stage: PixelationStage } | null>(null);
+  const pixelationAbortRef = useRef<AbortController | null>(null);
   const [pixelatedImage, setPixelatedImage] = useState<string | null>(null);
+  const [pixelatedPalette, setPixelatedPalette] = useState<PaletteEntry[] | null>(null);
+  const [legoParts, setLegoParts] = useState<LegoPartCount[] | null>(null);
   const [activeTab, setActiveTab] = useState('generate');
 
-  const styleOptions = [
-    '16-bit retro gaming',
-    '8-bit classic',
-    'Modern pixel art',
-    'Minimalist',
-    'Fantasy RPG',
-    'Sci-fi cyberpunk',
-    'Cute chibi',
-    'Dark gothic'
-  ];
-
-  const sizeOptions = [
-    '16x16',
-    '32x32',
-    '64x64',
-    '128x128',
-    '256x256'
-  ];
+  const styleOptions = ART_STYLES.map(option => option.name);
+
+  const sizeOptions = SPRITE_SIZE_OPTIONS;
+
+  const provider = getImageProvider(providerId);
+  // Restyle the uploaded picture instead of starting from text alone
+  const imageToImage = useReferenceImage && !!selectedImage;
+
+  const handleProviderChange = (id: ImageProviderId) => {
+    // Models and servers belong to one provider, so start from its defaults
+    setProviderId(id);
+    setModel('');
+    setBaseUrl('');
+  };
 
   const handleGenerate = async () => {
-    if (!prompt.trim()) {
+    if (!prompt.trim() && !imageToImage) {
       toast.error('Please enter a prompt');
       return;
     }
 
-    if (!apiKey.trim()) {
-      toast.error('Please enter your Google Gemini API key');
+    if (provider.apiKey === 'required' && !apiKey.trim()) {
+      toast.error(`Please enter your ${provider.name} API key`);
       setShowApiKeyField(true);
       return;
     }
 
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
     setIsGenerating(true);
     
     try {
@@ -78,15 +113,58 @@ export default function PixelArtGenerator() {
         prompt: prompt.trim(),
         style,
         size,
-        apiKey: apiKey.trim()
+        provider: providerId,
+        model: model.trim() || undefined,
+        apiKey: apiKey.trim() || undefined,
+        baseUrl: baseUrl.trim() || undefined,
+        snapToGrid,
+        mode: imageToImage ? 'image-to-image' : 'text-to-image',
+        referenceImage: imageToImage && selectedImage ? selectedImage : undefined,
+        signal: abortController.signal
       };
 
-      const result = await generatePixelArtImage(request);
+      const historyPrompt = prompt.trim() || `Restyled ${selectedImage?.name}`;
+      const count = variantCount;
+
+      if (count > 1) {
+        // Show a placeholder per variant and fill it in as soon as that variant is done
+        const runId = Date.now().toString();
+        setVariantPrompt(historyPrompt);
+        setVariants(Array.from({ length: count }, (_, index) => ({
+          id: `${runId}-${index}`,
+          image: null,
+          selected: false
+        })));
+        const results = await generatePixelArtVariants(request, count, (index, response) => {
+          setVariants(prev => prev && prev.map((variant, i) => i === index ? {
+            ...variant,
+            image: response.imageData || null,
+            error: response.success ? undefined : response.error
+          } : variant));
+        });
+
+        const generated = results.filter(result => result.success && result.imageData).length;
+        if (abortController.signal.aborted) {
+          // Variants finished before the cancel can still be kept
+          if (generated === 0) setVariants(null);
+          toast.info('Generation cancelled');
+        } else if (generated > 0) {
+          toast.success(`Generated ${generated} of ${count} variants. Pick the ones to keep.`);
+        } else {
+          setVariants(null);
+          showGenerationError(results[0], request, historyPrompt);
+        }
+        return;
+      }
+
+      const [result] = await generatePixelArtVariants(request, 1);
       
-      if (result.success && result.imageData) {
+      if (result.cancelled) {
+        toast.info('Generation cancelled');
+      } else if (result.success && result.imageData) {
         const newArt = {
           id: Date.now().toString(),
-          prompt: prompt.trim(),
+          prompt: historyPrompt,
           image: result.imageData,
           timestamp: new Date()
         };
@@ -95,16 +173,74 @@ export default function PixelArtGenerator() {
         setGenerationHistory(prev => [newArt, ...prev]);
         toast.success('Pixel art generated successfully!');
       } else {
-        toast.error(result.error || 'Failed to generate pixel art');
+        showGenerationError(result, request, historyPrompt);
       }
     } catch (error) {
       toast.error('An error occurred while generating pixel art');
       console.error('Generation error:', error);
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Failures the user can't fix by changing the key or prompt, where a local pattern may still help
+  const offersFallback = (failure?: GenerationError) =>
+    !failure || failure.kind === 'network' || failure.kind === 'no-image' || failure.kind === 'unknown';
+
+  const showGenerationError = (result: ImageGenerationResponse, request: ImageGenerationRequest, historyPrompt: string) => {
+    if (result.failure?.kind === 'auth') {
+      setShowApiKeyField(true);
+    }
+    toast.error(result.error || 'Failed to generate pixel art', offersFallback(result.failure) ? {
+      action: { label: 'Use Local Pattern', onClick: () => handleUseFallback(request, historyPrompt) }
+    } : undefined);
+  };
+
+  const handleUseFallback = async (request: ImageGenerationRequest, historyPrompt: string) => {
+    const result = await generateFallbackPixelArt(request);
+    if (!result.success || !result.imageData) {
+      toast.error(result.error || 'Failed to generate pixel art');
+      return;
+    }
+
+    setGeneratedImage(result.imageData);
+    setGenerationHistory(prev => [{
+      id: Date.now().toString(),
+      prompt: historyPrompt,
+      image: result.imageData!,
+      timestamp: new Date(),
+      fromFallback: result.fromFallback
+    }, ...prev]);
+    toast.info('Drew a local pattern from the prompt; no model was used');
+  };
+
+  const handleToggleVariant = (id: string) => {
+    setVariants(prev => prev && prev.map(variant =>
+      variant.id === id ? { ...variant, selected: !variant.selected } : variant
+    ));
+  };
+
+  const handleKeepVariants = () => {
+    // The run still writes into `variants` until it settles; Cancel ends it early
+    if (isGenerating) return;
+    const chosen = (variants || []).filter(variant => variant.selected && variant.image);
+    if (chosen.length === 0) return;
+
+    const timestamp = new Date();
+    setGenerationHistory(prev => [
+      ...chosen.map(variant => ({ id: variant.id, prompt: variantPrompt, image: variant.image!, timestamp })),
+      ...prev
+    ]);
+    setGeneratedImage(chosen[0].image);
+    setVariants(null);
+    toast.success(`Kept ${chosen.length} variant${chosen.length === 1 ? '' : 's'}`);
+  };
+
   const handleDownload = (imageData: string, filename?: string) => {
     const link = document.createElement('a');
     link.download = filename || `pixel-art-${Date.now()}.png`;
@@ -122,11 +258,15 @@ export default function PixelArtGenerator() {
   const handleImageSelect = (file: File) => {
     setSelectedImage(file);
     setPixelatedImage(null);
+    setPixelatedPalette(null);
+    setLegoParts(null);
   };
 
   const handleClearImage = () => {
     setSelectedImage(null);
     setPixelatedImage(null);
+    setPixelatedPalette(null);
+    setLegoParts(null);
   };
 
   const handlePixelateImage = async () => {
@@ -135,27 +275,28 @@ export default function PixelArtGenerator() {
       return;
     }
 
+    const abortController = new AbortController();
+    pixelationAbortRef.current = abortController;
     setIsPixelating(true);
+    setPixelationProgress({ progress: 0, stage: 'decoding' });
     
     try {
-      let result;
-      
-      if (pixelationOptions.legoEffect) {
-        // Use image-pixelate for lego effect
-        result = await applyPixelationEffect(
-          selectedImage,
-          pixelationOptions.pixelSize,
-          true,
-          pixelationOptions.gridSize
-        );
-      } else {
-        // Use image-pixelizer for advanced pixelation
-        result = await convertToPixelArt(selectedImage, pixelationOptions);
-      }
+      const result = await convertToPixelArt(selectedImage, pixelationOptions, {
+        signal: abortController.signal,
+        onProgress: (progress, stage) => setPixelationProgress({ progress, stage })
+      });
       
-      if (result.success && result.imageData) {
+      if (result.cancelled) {
+        toast.info('Pixelation cancelled');
+      } else if (result.success && result.imageData) {
         setPixelatedImage(result.imageData);
-        toast.success('Image pixelated successfully!');
+        setPixelatedPalette(result.palette || null);
+        setLegoParts(result.bricks || null);
+        toast.success(
+          result.width && result.height
+            ? `Image pixelated successfully! (${result.width}x${result.height})`
+            : 'Image pixelated successfully!'
+        );
       } else {
         toast.error(result.error || 'Failed to pixelate image');
       }
@@ -163,10 +304,16 @@ export default function PixelArtGenerator() {
       toast.error('An error occurred while pixelating the image');
       console.error('Pixelation error:', error);
     } finally {
+      pixelationAbortRef.current = null;
       setIsPixelating(false);
+      setPixelationProgress(null);
     }
   };
 
+  const handleCancelPixelation = () => {
+    pixelationAbortRef.current?.abort();
+  };
+
   return (
     <StarsBackground 
       className="fixed inset-0 w-full h-full"
@@ -187,7 +334,7 @@ export default function PixelArtGenerator() {
             </p>
             <div className="bg-card/95 backdrop-blur-sm border border-primary/30 rounded-lg p-4 max-w-2xl mx-auto shadow-lg">
               <p className="text-card-foreground text-sm">
-                <strong>Getting Started:</strong> You&apos;ll need a free Google Gemini API key. 
+                <strong>Getting Started:</strong> The default provider needs a free Google Gemini API key. 
                 Click &quot;Show API Key Field&quot; below and get your key from{' '}
                 <a 
                   href="https://makersuite.google.com/" 
@@ -197,7 +344,8 @@ export default function PixelArtGenerator() {
                 >
                   Google AI Studio
                 </a>
-                {' '}to start generating pixel art!
+                {' '}to start generating pixel art! You can also switch to an OpenAI-compatible
+                endpoint, a local Stable Diffusion or ComfyUI server, or the offline mock provider.
               </p>
             </div>
           </div>
@@ -232,63 +380,137 @@ export default function PixelArtGenerator() {
                   </CardDescription>
                 </CardHeader>
             <CardContent className="space-y-4">
-              {/* API Key Section */}
+              {/* Provider Section */}
               <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label className="text-foreground">Google Gemini API Key</Label>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setShowApiKeyField(!showApiKeyField)}
-                    className="text-muted-foreground hover:text-foreground text-xs"
-                  >
-                    {showApiKeyField ? 'Hide' : 'Show'} API Key Field
-                  </Button>
+                <Label className="text-foreground">Image Provider</Label>
+                <Select value={providerId} onValueChange={(value: ImageProviderId) => handleProviderChange(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IMAGE_PROVIDERS.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{provider.description}</p>
+              </div>
+
+              <div className={provider.defaultBaseUrl ? 'grid grid-cols-2 gap-4' : ''}>
+                <div className="space-y-2">
+                  <Label htmlFor="model" className="text-foreground">Model</Label>
+                  <Input
+                    id="model"
+                    list="provider-models"
+                    placeholder={provider.models[0] || 'Server default'}
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                  />
+                  <datalist id="provider-models">
+                    {provider.models.map((option) => (
+                      <option key={option} value={option} />
+                    ))}
+                  </datalist>
                 </div>
-                {showApiKeyField && (
+                {provider.defaultBaseUrl && (
                   <div className="space-y-2">
+                    <Label htmlFor="base-url" className="text-foreground">Server URL</Label>
                     <Input
-                      type="password"
-                      placeholder="Enter your Google Gemini API key..."
-                      value={apiKey}
-                      onChange={(e) => setApiKey(e.target.value)}
+                      id="base-url"
+                      placeholder={provider.defaultBaseUrl}
+                      value={baseUrl}
+                      onChange={(e) => setBaseUrl(e.target.value)}
                     />
-                    <p className="text-xs text-muted-foreground">
-                      Get your free API key from{' '}
-                      <a 
-                        href="https://makersuite.google.com/" 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-primary hover:text-primary/80 underline"
-                      >
-                        Google AI Studio
-                      </a>
-                    </p>
-                  </div>
-                )}
-                {!showApiKeyField && apiKey && (
-                  <div className="flex items-center gap-2">
-                    <Badge variant="secondary" className="bg-green-500/20 text-green-600 border-green-500/30">
-                      ✓ API Key Set
-                    </Badge>
-                    <span className="text-xs text-muted-foreground">
-                      {apiKey.substring(0, 8)}...{apiKey.substring(apiKey.length - 4)}
-                    </span>
                   </div>
                 )}
               </div>
 
+              {/* API Key Section (not needed for local and offline providers) */}
+              {provider.apiKey !== 'none' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-foreground">
+                      {provider.name} API Key{provider.apiKey === 'optional' ? ' (optional)' : ''}
+                    </Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowApiKeyField(!showApiKeyField)}
+                      className="text-muted-foreground hover:text-foreground text-xs"
+                    >
+                      {showApiKeyField ? 'Hide' : 'Show'} API Key Field
+                    </Button>
+                  </div>
+                  {showApiKeyField && (
+                    <div className="space-y-2">
+                      <Input
+                        type="password"
+                        placeholder={`Enter your ${provider.name} API key...`}
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                      />
+                      {provider.id === 'gemini' && (
+                        <p className="text-xs text-muted-foreground">
+                          Get your free API key from{' '}
+                          <a 
+                            href="https://makersuite.google.com/" 
+                            target="_blank" 
+                            rel="noopener noreferrer"
+                            className="text-primary hover:text-primary/80 underline"
+                          >
+                            Google AI Studio
+                          </a>
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {!showApiKeyField && apiKey && (
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="bg-green-500/20 text-green-600 border-green-500/30">
+                        ✓ API Key Set
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {apiKey.substring(0, 8)}...{apiKey.substring(apiKey.length - 4)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-2">
-                <Label htmlFor="prompt" className="text-foreground">Describe your pixel art</Label>
+                <Label htmlFor="prompt" className="text-foreground">
+                  {imageToImage ? 'Describe how to restyle the image' : 'Describe your pixel art'}
+                </Label>
                 <Input
                   id="prompt"
-                  placeholder="A cute cat sitting on a rainbow cloud..."
+                  placeholder={imageToImage ?
+                    'Turn this photo into a 16-bit RPG portrait...' :
+                    'A cute cat sitting on a rainbow cloud...'}
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
                 />
               </div>
 
+              {/* Reference Image */}
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label className="text-foreground">Use Uploaded Image</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {selectedImage
+                      ? `Restyle ${selectedImage.name} with AI, then pixelate it`
+                      : 'Upload an image in the Image Pixelation tab to restyle it'}
+                  </p>
+                </div>
+                <Switch
+                  checked={imageToImage}
+                  onCheckedChange={setUseReferenceImage}
+                  disabled={!selectedImage}
+                />
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label className="text-foreground">Style</Label>
@@ -323,24 +545,64 @@ export default function PixelArtGenerator() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label className="text-foreground">Variants</Label>
+                <Select value={String(variantCount)} onValueChange={(value) => setVariantCount(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count === 1 ? '1 image' : `${count} candidates to choose from`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {variantCount > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {provider.maxConcurrency === 1
+                      ? `${provider.name} renders one at a time`
+                      : `Up to ${provider.maxConcurrency} requests run at once`}
+                  </p>
+                )}
+              </div>
 
-              <Button
-                onClick={handleGenerate}
-                disabled={isGenerating || !prompt.trim()}
-                className="w-full"
-              >
-                {isGenerating ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Palette className="h-4 w-4 mr-2" />
-                    Generate Pixel Art
-                  </>
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label className="text-foreground">Snap to Sprite Grid</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Redraw the result at exactly {size} with the style&apos;s palette size
+                  </p>
+                </div>
+                <Switch checked={snapToGrid} onCheckedChange={setSnapToGrid} />
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleGenerate}
+                  disabled={isGenerating || (!prompt.trim() && !imageToImage)}
+                  className="flex-1"
+                >
+                  {isGenerating ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <Palette className="h-4 w-4 mr-2" />
+                      Generate Pixel Art
+                    </>
+                  )}
+                </Button>
+                {isGenerating && (
+                  <Button onClick={handleCancelGeneration} variant="outline">
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
                 )}
-              </Button>
+              </div>
                 </CardContent>
               </Card>
 
@@ -356,7 +618,62 @@ export default function PixelArtGenerator() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  {generatedImage ? (
+                  {variants ? (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {variants.map((variant, index) => (
+                          <button
+                            key={variant.id}
+                            type="button"
+                            onClick={() => handleToggleVariant(variant.id)}
+                            disabled={!variant.image}
+                            className={`relative flex aspect-square items-center justify-center overflow-hidden rounded-lg border-2 transition-colors ${
+                              variant.selected
+                                ? 'border-primary bg-primary/10'
+                                : 'border-border/50 hover:border-border'
+                            }`}
+                            aria-pressed={variant.selected}
+                            aria-label={`Variant ${index + 1}`}
+                          >
+                            {variant.image ? (
+                              <Image
+                                src={variant.image}
+                                alt={`Variant ${index + 1}`}
+                                width={128}
+                                height={128}
+                                className="h-full w-full object-contain"
+                                style={{ imageRendering: 'pixelated' }}
+                              />
+                            ) : variant.error ? (
+                              <span className="p-2 text-xs text-destructive">{variant.error}</span>
+                            ) : (
+                              <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" />
+                            )}
+                            {variant.selected && (
+                              <Check className="absolute top-1 right-1 h-4 w-4 rounded-full bg-primary p-0.5 text-primary-foreground" />
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={handleKeepVariants}
+                          disabled={isGenerating || !variants.some(variant => variant.selected)}
+                          className="flex-1"
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          Keep Selected ({variants.filter(variant => variant.selected).length})
+                        </Button>
+                        <Button
+                          onClick={() => setVariants(null)}
+                          disabled={isGenerating}
+                          variant="outline"
+                        >
+                          Discard
+                        </Button>
+                      </div>
+                    </div>
+                  ) : generatedImage ? (
                     <div className="space-y-4">
                       <div className="flex justify-center">
                         <Image
@@ -413,6 +730,7 @@ export default function PixelArtGenerator() {
               <PixelationSettings
                 options={pixelationOptions}
                 onOptionsChange={setPixelationOptions}
+                previewImage={selectedImage}
               />
             </div>
 
@@ -429,24 +747,52 @@ export default function PixelArtGenerator() {
                     Convert your uploaded image to pixel art
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-3">
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handlePixelateImage}
+                      disabled={isPixelating || !selectedImage}
+                      className="flex-1"
+                    >
+                      {isPixelating ? (
+                        <>
+                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                          Pixelating...
+                        </>
+                      ) : (
+                        <>
+                          <ImageIcon className="h-4 w-4 mr-2" />
+                          Pixelate Image
+                        </>
+                      )}
+                    </Button>
+                    {isPixelating && (
+                      <Button onClick={handleCancelPixelation} variant="outline">
+                        <X className="h-4 w-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
                   <Button
-                    onClick={handlePixelateImage}
-                    disabled={isPixelating || !selectedImage}
+                    onClick={() => {
+                      setUseReferenceImage(true);
+                      setActiveTab('generate');
+                    }}
+                    disabled={!selectedImage}
+                    variant="outline"
                     className="w-full"
                   >
-                    {isPixelating ? (
-                      <>
-                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                        Pixelating...
-                      </>
-                    ) : (
-                      <>
-                        <ImageIcon className="h-4 w-4 mr-2" />
-                        Pixelate Image
-                      </>
-                    )}
+                    <Palette className="h-4 w-4 mr-2" />
+                    Restyle with AI
                   </Button>
+                  {pixelationProgress && (
+                    <div className="space-y-1">
+                      <Progress value={Math.round(pixelationProgress.progress * 100)} />
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {pixelationProgress.stage}... {Math.round(pixelationProgress.progress * 100)}%
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -485,12 +831,22 @@ export default function PixelArtGenerator() {
                           Download
                         </Button>
                         <Button
-                          onClick={() => setPixelatedImage(null)}
+                          onClick={() => {
+                            setPixelatedImage(null);
+                            setPixelatedPalette(null);
+                            setLegoParts(null);
+                          }}
                           variant="outline"
                         >
                           Clear
                         </Button>
                       </div>
+                      {pixelatedPalette && pixelatedPalette.length > 0 && (
+                        <PaletteExport palette={pixelatedPalette} />
+                      )}
+                      {legoParts && legoParts.length > 0 && (
+                        <LegoPartsList parts={legoParts} />
+                      )}
                     </div>
                   ) : (
                     <div className="flex items-center justify-center h-64 border-2 border-dashed rounded-lg">
@@ -547,6 +903,11 @@ export default function PixelArtGenerator() {
                         <Download className="h-3 w-3" />
                       </Button>
                     </div>
+                    {item.fromFallback && (
+                      <Badge variant="outline" className="absolute top-1 left-1 bg-background/80 text-[10px] px-1 py-0">
+                        Local pattern
+                      </Badge>
+                    )}
                     <p className="text-xs text-muted-foreground mt-1 truncate" title={item.prompt}>
                       {item.prompt}
                     </p>
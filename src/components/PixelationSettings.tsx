@@ -1,20 +1,60 @@
 'use client';
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
-import { Settings } from 'lucide-react';
-import { PixelationOptions } from '@/lib/pixelation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dices, FolderOpen, RotateCcw, Settings } from 'lucide-react';
+import {
+  CropAnchor,
+  OutputMode,
+  PixelationOptions,
+  QuantizationAlgorithm,
+  SamplingMode,
+  SizingMode,
+  SPRITE_SIZE_OPTIONS,
+  TargetFit
+} from '@/lib/pixelation';
+import { BUILT_IN_PALETTES } from '@/lib/palettes';
+import { loadPaletteFile } from '@/lib/palette-formats';
+import { toast } from 'sonner';
+import { DitheringAlgorithm, OrderedDitherMatrix } from '@/lib/dithering';
+import { OutlinePosition, SilhouetteSource } from '@/lib/outline';
+import { ColorSpace } from '@/lib/color-space';
+import { hasAdjustments, ImageAdjustments, NEUTRAL_ADJUSTMENTS } from '@/lib/adjustments';
+import AdjustmentPreview from './AdjustmentPreview';
 
 interface PixelationSettingsProps {
   options: PixelationOptions;
   onOptionsChange: (options: PixelationOptions) => void;
+  // Source image shown in the live adjustment preview
+  previewImage?: File | null;
 }
 
-export default function PixelationSettings({ options, onOptionsChange }: PixelationSettingsProps) {
+const CLEANUP_LABELS = ['Off', 'Light', 'Medium', 'Strong'];
+
+const ADJUSTMENT_SLIDERS: Array<{
+  key: keyof ImageAdjustments;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}> = [
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1, format: (value) => `${value > 0 ? '+' : ''}${value}` },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1, format: (value) => `${value > 0 ? '+' : ''}${value}` },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1, format: (value) => `${value > 0 ? '+' : ''}${value}` },
+  { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05, format: (value) => value.toFixed(2) },
+  { key: 'hueRotation', label: 'Hue Shift', min: -180, max: 180, step: 1, format: (value) => `${value}°` },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1, format: (value) => (value ? `${value}%` : 'off') },
+  { key: 'posterizeLevels', label: 'Posterize', min: 0, max: 32, step: 1, format: (value) => (value >= 2 ? `${value} levels` : 'off') }
+];
+
+export default function PixelationSettings({ options, onOptionsChange, previewImage }: PixelationSettingsProps) {
   const updateOption = <K extends keyof PixelationOptions>(
     key: K,
     value: PixelationOptions[K]
@@ -22,6 +62,29 @@ export default function PixelationSettings({ options, onOptionsChange }: Pixelat
     onOptionsChange({ ...options, [key]: value });
   };
 
+  const paletteInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePaletteFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = await loadPaletteFile(file);
+    if (result.success && result.customPalette) {
+      const palette = result.customPalette;
+      onOptionsChange({ ...options, customPalette: palette, paletteId: palette.id });
+      toast.success(`Loaded palette "${palette.name}" (${palette.colors.length} colors)`);
+    } else {
+      toast.error(result.error || 'Failed to load palette');
+    }
+  };
+
+  const targetSize = `${options.targetWidth || 32}x${options.targetHeight || 32}`;
+
+  const availablePalettes = options.customPalette ?
+    [options.customPalette, ...BUILT_IN_PALETTES] :
+    BUILT_IN_PALETTES;
+
   return (
     <Card className="bg-card/80 backdrop-blur-sm border border-border/50">
       <CardHeader>
@@ -34,46 +97,255 @@ export default function PixelationSettings({ options, onOptionsChange }: Pixelat
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Pixel Size */}
+        {/* Sizing Mode */}
         <div className="space-y-2">
-          <Label className="text-foreground">Pixel Size: {options.pixelSize}px</Label>
-          <Slider
-            value={[options.pixelSize]}
-            onValueChange={([value]) => updateOption('pixelSize', value)}
-            min={2}
-            max={32}
-            step={1}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-muted-foreground">
-            <span>2px (fine detail)</span>
-            <span>32px (chunky)</span>
+          <Label className="text-foreground">Sizing</Label>
+          <Select
+            value={options.sizingMode || 'pixel-size'}
+            onValueChange={(value: SizingMode) => updateOption('sizingMode', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pixel-size">Block size (pixels per block)</SelectItem>
+              <SelectItem value="target">Target sprite size (e.g. 32x32)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Pixel Size (block size mode) */}
+        {options.sizingMode !== 'target' && (
+          <div className="space-y-2">
+            <Label className="text-foreground">Pixel Size: {options.pixelSize}px</Label>
+            <Slider
+              value={[options.pixelSize]}
+              onValueChange={([value]) => updateOption('pixelSize', value)}
+              min={2}
+              max={32}
+              step={1}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>2px (fine detail)</span>
+              <span>32px (chunky)</span>
+            </div>
+          </div>
+        )}
+
+        {/* Target Dimensions (target size mode) */}
+        {options.sizingMode === 'target' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-foreground">Sprite Size</Label>
+              <Select
+                value={SPRITE_SIZE_OPTIONS.includes(targetSize) ? targetSize : ''}
+                onValueChange={(value) => {
+                  const [width, height] = value.split('x').map(Number);
+                  onOptionsChange({ ...options, targetWidth: width, targetHeight: height });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Custom" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPRITE_SIZE_OPTIONS.map((size) => (
+                    <SelectItem key={size} value={size}>
+                      {size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={512}
+                  value={options.targetWidth || 32}
+                  onChange={(e) => updateOption('targetWidth', Math.max(1, Number(e.target.value) || 1))}
+                  aria-label="Target width"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  max={512}
+                  value={options.targetHeight || 32}
+                  onChange={(e) => updateOption('targetHeight', Math.max(1, Number(e.target.value) || 1))}
+                  aria-label="Target height"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label className="text-foreground">Aspect</Label>
+                <Select
+                  value={options.targetFit || 'fill'}
+                  onValueChange={(value: TargetFit) => updateOption('targetFit', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fill">Fill (crop)</SelectItem>
+                    <SelectItem value="fit">Fit (pad)</SelectItem>
+                    <SelectItem value="stretch">Stretch</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-foreground">Anchor</Label>
+                <Select
+                  value={options.cropAnchor || 'center'}
+                  onValueChange={(value: CropAnchor) => updateOption('cropAnchor', value)}
+                  disabled={options.targetFit === 'stretch'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="top-left">Top left</SelectItem>
+                    <SelectItem value="top">Top</SelectItem>
+                    <SelectItem value="top-right">Top right</SelectItem>
+                    <SelectItem value="left">Left</SelectItem>
+                    <SelectItem value="center">Center</SelectItem>
+                    <SelectItem value="right">Right</SelectItem>
+                    <SelectItem value="bottom-left">Bottom left</SelectItem>
+                    <SelectItem value="bottom">Bottom</SelectItem>
+                    <SelectItem value="bottom-right">Bottom right</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Adjustments */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-foreground">Adjustments</Label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onOptionsChange({ ...options, ...NEUTRAL_ADJUSTMENTS })}
+              disabled={!hasAdjustments(options)}
+              className="text-muted-foreground hover:text-foreground text-xs"
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Reset
+            </Button>
           </div>
+          {previewImage && (
+            <AdjustmentPreview image={previewImage} adjustments={options} />
+          )}
+          {ADJUSTMENT_SLIDERS.map(({ key, label, min, max, step, format }) => {
+            const value = options[key] ?? NEUTRAL_ADJUSTMENTS[key];
+            return (
+              <div key={key} className="space-y-2">
+                <Label className="text-foreground">{label}: {format(value)}</Label>
+                <Slider
+                  value={[value]}
+                  onValueChange={([newValue]) => updateOption(key, newValue)}
+                  min={min}
+                  max={max}
+                  step={step}
+                  className="w-full"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Block Sampling */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Block Sampling</Label>
+          <Select
+            value={options.samplingMode || 'average'}
+            onValueChange={(value: SamplingMode) => updateOption('samplingMode', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="average">Average (smooth)</SelectItem>
+              <SelectItem value="median">Median (less noise)</SelectItem>
+              <SelectItem value="mode">Dominant color (flat areas)</SelectItem>
+              <SelectItem value="center">Center pixel (sharp)</SelectItem>
+              <SelectItem value="edge-weighted">Edge-weighted (keeps outlines)</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
-        {/* Color Count */}
+        {/* Transparency */}
         <div className="space-y-2">
-          <Label className="text-foreground">Color Count: {options.colorCount} colors</Label>
+          <Label className="text-foreground">
+            Alpha Threshold: {options.alphaThreshold ? options.alphaThreshold : 'off (soft edges)'}
+          </Label>
           <Slider
-            value={[options.colorCount]}
-            onValueChange={([value]) => updateOption('colorCount', value)}
-            min={4}
-            max={64}
-            step={2}
+            value={[options.alphaThreshold ?? 0]}
+            onValueChange={([value]) => updateOption('alphaThreshold', value)}
+            min={0}
+            max={255}
+            step={1}
+            disabled={!!options.matteColor}
             className="w-full"
           />
           <div className="flex justify-between text-xs text-muted-foreground">
-            <span>4 colors (minimal)</span>
-            <span>64 colors (detailed)</span>
+            <span>Keep partial alpha</span>
+            <span>Only solid pixels</span>
           </div>
         </div>
 
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label className="text-foreground">Flatten onto Matte</Label>
+            <p className="text-xs text-muted-foreground">
+              Fill transparent areas with a background color
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {options.matteColor && (
+              <input
+                type="color"
+                value={options.matteColor}
+                onChange={(e) => updateOption('matteColor', e.target.value)}
+                className="h-6 w-8 cursor-pointer rounded border"
+                aria-label="Matte color"
+              />
+            )}
+            <Switch
+              checked={!!options.matteColor}
+              onCheckedChange={(checked) => updateOption('matteColor', checked ? '#ffffff' : undefined)}
+            />
+          </div>
+        </div>
+
+        {/* Color Count (a fixed palette decides the colors itself) */}
+        {options.algorithm !== 'palette' && (
+          <div className="space-y-2">
+            <Label className="text-foreground">Color Count: {options.colorCount} colors</Label>
+            <Slider
+              value={[options.colorCount]}
+              onValueChange={([value]) => updateOption('colorCount', value)}
+              min={4}
+              max={64}
+              step={2}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>4 colors (minimal)</span>
+              <span>64 colors (detailed)</span>
+            </div>
+          </div>
+        )}
+
         {/* Algorithm */}
         <div className="space-y-2">
           <Label className="text-foreground">Color Reduction Algorithm</Label>
           <Select
             value={options.algorithm}
-            onValueChange={(value: 'kmeans' | 'median-cut' | 'octree') => 
+            onValueChange={(value: QuantizationAlgorithm) => 
               updateOption('algorithm', value)
             }
           >
@@ -84,16 +356,123 @@ export default function PixelationSettings({ options, onOptionsChange }: Pixelat
               <SelectItem value="kmeans">K-Means (balanced)</SelectItem>
               <SelectItem value="median-cut">Median Cut (fast)</SelectItem>
               <SelectItem value="octree">Octree (quality)</SelectItem>
+              <SelectItem value="palette">Fixed Palette (retro hardware)</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
+        {/* K-Means Settings */}
+        {options.algorithm === 'kmeans' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="text-foreground">Seed</Label>
+              <div className="flex gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  value={options.seed ?? 0}
+                  onChange={(e) => updateOption('seed', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                  aria-label="K-means seed"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => updateOption('seed', Math.floor(Math.random() * 100000))}
+                  title="Random seed"
+                >
+                  <Dices className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-foreground">Max Iterations</Label>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                value={options.maxIterations ?? 20}
+                onChange={(e) => updateOption('maxIterations', Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+                aria-label="K-means max iterations"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Palette Picker (only show for the fixed palette algorithm) */}
+        {options.algorithm === 'palette' && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-foreground">Palette</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => paletteInputRef.current?.click()}
+                className="text-muted-foreground hover:text-foreground text-xs"
+              >
+                <FolderOpen className="h-3 w-3 mr-1" />
+                Load Palette
+              </Button>
+              <input
+                ref={paletteInputRef}
+                type="file"
+                accept=".gpl,.txt,.pal,.hex,.ase"
+                onChange={handlePaletteFileChange}
+                className="hidden"
+              />
+            </div>
+            <div className="grid gap-2">
+              {availablePalettes.map((palette) => (
+                <button
+                  key={palette.id}
+                  type="button"
+                  onClick={() => updateOption('paletteId', palette.id)}
+                  className={`rounded-md border p-2 text-left transition-colors ${
+                    (options.paletteId || 'pico-8') === palette.id
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border/50 hover:border-border'
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-sm text-foreground">
+                    <span>{palette.name}</span>
+                    <span className="text-xs text-muted-foreground">{palette.colors.length} colors</span>
+                  </div>
+                  <PaletteSwatches colors={palette.colors} />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Color Space */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Color Space</Label>
+          <Select
+            value={options.colorSpace || 'srgb'}
+            onValueChange={(value: ColorSpace) => updateOption('colorSpace', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="srgb">sRGB (fast)</SelectItem>
+              <SelectItem value="linear-rgb">Linear RGB (light-accurate)</SelectItem>
+              <SelectItem value="cielab">CIELAB (perceptual)</SelectItem>
+              <SelectItem value="oklab">OKLab (perceptual, modern)</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Where color distances are measured when picking and matching palette colors
+          </p>
+        </div>
+
         {/* Dithering */}
         <div className="flex items-center justify-between">
           <div className="space-y-1">
             <Label className="text-foreground">Dithering</Label>
             <p className="text-xs text-muted-foreground">
-              Adds noise to reduce color banding
+              Spreads color error to reduce banding in gradients
             </p>
           </div>
           <Switch
@@ -102,12 +481,252 @@ export default function PixelationSettings({ options, onOptionsChange }: Pixelat
           />
         </div>
 
+        {/* Dithering Algorithm (only show when dithering is enabled) */}
+        {options.dithering && (
+          <div className="space-y-2">
+            <Label className="text-foreground">Dithering Algorithm</Label>
+            <Select
+              value={options.ditheringAlgorithm || 'floyd-steinberg'}
+              onValueChange={(value: DitheringAlgorithm) =>
+                updateOption('ditheringAlgorithm', value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="floyd-steinberg">Floyd–Steinberg (classic)</SelectItem>
+                <SelectItem value="atkinson">Atkinson (high contrast)</SelectItem>
+                <SelectItem value="jarvis-judice-ninke">Jarvis–Judice–Ninke (smooth)</SelectItem>
+                <SelectItem value="sierra">Sierra (balanced)</SelectItem>
+                <SelectItem value="ordered">Ordered (stable pattern)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Ordered Dithering Matrix (only show for ordered dithering) */}
+        {options.dithering && options.ditheringAlgorithm === 'ordered' && (
+          <div className="space-y-2">
+            <Label className="text-foreground">Threshold Matrix</Label>
+            <Select
+              value={options.orderedMatrix || 'bayer-4x4'}
+              onValueChange={(value: OrderedDitherMatrix) =>
+                updateOption('orderedMatrix', value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bayer-2x2">Bayer 2x2 (coarse)</SelectItem>
+                <SelectItem value="bayer-4x4">Bayer 4x4 (classic)</SelectItem>
+                <SelectItem value="bayer-8x8">Bayer 8x8 (fine)</SelectItem>
+                <SelectItem value="blue-noise">Blue Noise (organic)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Dithering Strength (only show when dithering is enabled) */}
+        {options.dithering && (
+          <div className="space-y-2">
+            <Label className="text-foreground">
+              Dithering Strength: {Math.round((options.ditheringStrength ?? 1) * 100)}%
+            </Label>
+            <Slider
+              value={[Math.round((options.ditheringStrength ?? 1) * 100)]}
+              onValueChange={([value]) => updateOption('ditheringStrength', value / 100)}
+              min={0}
+              max={100}
+              step={5}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>0% (flat)</span>
+              <span>100% (full)</span>
+            </div>
+          </div>
+        )}
+
+        {/* Output Resolution */}
+        <div className="space-y-2">
+          <Label className="text-foreground">Output Resolution</Label>
+          <Select
+            value={options.outputMode || 'upscaled'}
+            onValueChange={(value: OutputMode) => updateOption('outputMode', value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="upscaled">Original size (blocky)</SelectItem>
+              <SelectItem value="native">Native sprite (1 pixel per block)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Output Scale (only show for native output) */}
+        {options.outputMode === 'native' && (
+          <div className="space-y-2">
+            <Label className="text-foreground">Upscale Factor</Label>
+            <Select
+              value={String(options.outputScale || 1)}
+              onValueChange={(value) => updateOption('outputScale', Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 4, 8].map((scale) => (
+                  <SelectItem key={scale} value={String(scale)}>
+                    {scale}x{scale === 1 ? ' (exact sprite size)' : ' (nearest neighbour)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Cleanup */}
+        <div className="space-y-2">
+          <Label className="text-foreground">
+            Cleanup: {CLEANUP_LABELS[options.cleanupStrength ?? 0]}
+          </Label>
+          <Slider
+            value={[options.cleanupStrength ?? 0]}
+            onValueChange={([value]) => updateOption('cleanupStrength', value)}
+            min={0}
+            max={3}
+            step={1}
+            className="w-full"
+          />
+          <p className="text-xs text-muted-foreground">
+            Removes stray pixels, doubled steps on diagonals and small color islands. Works best without dithering.
+          </p>
+        </div>
+
+        {/* Outline */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label className="text-foreground">Outline</Label>
+            <p className="text-xs text-muted-foreground">
+              Draws a 1px line around the subject
+            </p>
+          </div>
+          <Switch
+            checked={!!options.outline}
+            onCheckedChange={(checked) => updateOption('outline', checked)}
+          />
+        </div>
+
+        {options.outline && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-foreground">Auto Outline Color</Label>
+              <div className="flex items-center gap-2">
+                {options.outlineColor && options.outlineColor !== 'auto' && (
+                  <input
+                    type="color"
+                    value={options.outlineColor}
+                    onChange={(e) => updateOption('outlineColor', e.target.value)}
+                    className="h-6 w-8 cursor-pointer rounded border"
+                    aria-label="Outline color"
+                  />
+                )}
+                <Switch
+                  checked={!options.outlineColor || options.outlineColor === 'auto'}
+                  onCheckedChange={(checked) => updateOption('outlineColor', checked ? 'auto' : '#000000')}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label className="text-foreground">Position</Label>
+                <Select
+                  value={options.outlinePosition || 'outer'}
+                  onValueChange={(value: OutlinePosition) => updateOption('outlinePosition', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="outer">Outer</SelectItem>
+                    <SelectItem value="inner">Inner</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-foreground">Corners</Label>
+                <Select
+                  value={String(options.outlineConnectivity || 8)}
+                  onValueChange={(value) => updateOption('outlineConnectivity', value === '4' ? 4 : 8)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="8">Filled (8-way)</SelectItem>
+                    <SelectItem value="4">Open (4-way)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-foreground">Subject Detection</Label>
+              <Select
+                value={options.outlineSource || 'alpha'}
+                onValueChange={(value: SilhouetteSource) => updateOption('outlineSource', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="alpha">Transparency</SelectItem>
+                  <SelectItem value="background">Background color</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {options.outlineSource === 'background' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-foreground">Background Key</Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {options.outlineBackgroundKey ? options.outlineBackgroundKey : 'top-left pixel'}
+                    </span>
+                    <input
+                      type="color"
+                      value={options.outlineBackgroundKey || '#ffffff'}
+                      onChange={(e) => updateOption('outlineBackgroundKey', e.target.value)}
+                      className="h-6 w-8 cursor-pointer rounded border"
+                      aria-label="Background key color"
+                    />
+                  </div>
+                </div>
+                <Label className="text-foreground">Key Tolerance: {options.outlineKeyTolerance ?? 24}</Label>
+                <Slider
+                  value={[options.outlineKeyTolerance ?? 24]}
+                  onValueChange={([value]) => updateOption('outlineKeyTolerance', value)}
+                  min={0}
+                  max={128}
+                  step={1}
+                  className="w-full"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Lego Effect */}
         <div className="flex items-center justify-between">
           <div className="space-y-1">
             <Label className="text-foreground">Lego Effect</Label>
             <p className="text-xs text-muted-foreground">
-              Creates block-like appearance
+              Renders 1x1 plates with studs in LEGO colors
             </p>
           </div>
           <Switch
@@ -116,20 +735,20 @@ export default function PixelationSettings({ options, onOptionsChange }: Pixelat
           />
         </div>
 
-        {/* Grid Size (only show when lego effect is enabled) */}
+        {/* Brick Size (only show when lego effect is enabled) */}
         {options.legoEffect && (
           <div className="space-y-2">
-            <Label className="text-foreground">Grid Size: {options.gridSize || options.pixelSize}px</Label>
+            <Label className="text-foreground">Brick Size: {Math.max(4, options.gridSize || options.pixelSize)}px</Label>
             <Slider
-              value={[options.gridSize || options.pixelSize]}
+              value={[Math.max(4, options.gridSize || options.pixelSize)]}
               onValueChange={([value]) => updateOption('gridSize', value)}
-              min={2}
+              min={4}
               max={64}
               step={1}
               className="w-full"
             />
             <div className="flex justify-between text-xs text-muted-foreground">
-              <span>2px</span>
+              <span>4px</span>
               <span>64px</span>
             </div>
           </div>
@@ -138,3 +757,18 @@ export default function PixelationSettings({ options, onOptionsChange }: Pixelat
     </Card>
   );
 }
+
+function PaletteSwatches({ colors }: { colors: string[] }) {
+  return (
+    <div className="mt-1 flex flex-wrap gap-px">
+      {colors.map((color, index) => (
+        <span
+          key={`${color}-${index}`}
+          className="h-3 w-3 rounded-[2px] border border-black/10"
+          style={{ backgroundColor: color }}
+          title={color}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Tweaks applied to the source image before it is pixelated. Every field is optional
+ * and the neutral value leaves the image untouched.
+ */
+export interface ImageAdjustments {
+  // -100 (black) to 100 (white)
+  brightness?: number;
+  // -100 (flat gray) to 100
+  contrast?: number;
+  // -100 (grayscale) to 100 (twice as saturated)
+  saturation?: number;
+  // 0.2 to 3; above 1 lifts the midtones, below 1 darkens them
+  gamma?: number;
+  // Degrees around the color wheel, -180 to 180
+  hueRotation?: number;
+  // Unsharp mask strength, 0 to 100
+  sharpen?: number;
+  // Levels per channel (2 to 32) to band the image into; 0 is off
+  posterizeLevels?: number;
+}
+
+export const NEUTRAL_ADJUSTMENTS: Required<ImageAdjustments> = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  gamma: 1,
+  hueRotation: 0,
+  sharpen: 0,
+  posterizeLevels: 0
+};
+
+// Rec. 709 luma weights, as used by the CSS saturate() and hue-rotate() filters
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+/**
+ * Whether any adjustment differs from its neutral value
+ */
+export function hasAdjustments(adjustments: ImageAdjustments): boolean {
+  return (Object.keys(NEUTRAL_ADJUSTMENTS) as Array<keyof ImageAdjustments>).some(key =>
+    (adjustments[key] ?? NEUTRAL_ADJUSTMENTS[key]) !== NEUTRAL_ADJUSTMENTS[key]
+  );
+}
+
+/**
+ * Apply the adjustments to RGBA pixels in a fixed order: brightness, contrast and gamma,
+ * then saturation and hue, then sharpening and finally posterization. Alpha is kept as is.
+ * Returns the input itself when nothing needs to change.
+ */
+export function applyAdjustments(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  adjustments: ImageAdjustments
+): Uint8ClampedArray {
+  if (!hasAdjustments(adjustments)) return data;
+  const settings = { ...NEUTRAL_ADJUSTMENTS };
+  for (const key of Object.keys(settings) as Array<keyof ImageAdjustments>) {
+    settings[key] = adjustments[key] ?? NEUTRAL_ADJUSTMENTS[key];
+  }
+
+  const output = new Uint8ClampedArray(data.length);
+  const tone = createToneCurve(settings.brightness, settings.contrast, settings.gamma);
+  const matrix = createColorMatrix(settings.saturation, settings.hueRotation);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = tone[data[i]];
+    const g = tone[data[i + 1]];
+    const b = tone[data[i + 2]];
+    if (matrix) {
+      output[i] = matrix[0] * r + matrix[1] * g + matrix[2] * b;
+      output[i + 1] = matrix[3] * r + matrix[4] * g + matrix[5] * b;
+      output[i + 2] = matrix[6] * r + matrix[7] * g + matrix[8] * b;
+    } else {
+      output[i] = r;
+      output[i + 1] = g;
+      output[i + 2] = b;
+    }
+    output[i + 3] = data[i + 3];
+  }
+
+  const sharpened = settings.sharpen > 0 ? sharpen(output, width, height, settings.sharpen / 50) : output;
+
+  if (settings.posterizeLevels >= 2) {
+    const posterize = createPosterizeCurve(settings.posterizeLevels);
+    for (let i = 0; i < sharpened.length; i += 4) {
+      sharpened[i] = posterize[sharpened[i]];
+      sharpened[i + 1] = posterize[sharpened[i + 1]];
+      sharpened[i + 2] = posterize[sharpened[i + 2]];
+    }
+  }
+
+  return sharpened;
+}
+
+/**
+ * Lookup table for brightness, contrast and gamma, which all map each channel value on its own
+ */
+function createToneCurve(brightness: number, contrast: number, gamma: number): Uint8ClampedArray {
+  const curve = new Uint8ClampedArray(256);
+  // Same contrast curve as most image editors: slopes from 0 (flat) through 1 to very steep
+  const c = Math.max(-100, Math.min(100, contrast)) * 2.55;
+  const contrastFactor = (259 * (c + 255)) / (255 * (259 - c));
+  const inverseGamma = 1 / Math.max(0.2, Math.min(3, gamma));
+
+  for (let value = 0; value < 256; value++) {
+    let adjusted = value + Math.max(-100, Math.min(100, brightness)) * 2.55;
+    adjusted = (adjusted - 128) * contrastFactor + 128;
+    adjusted = Math.max(0, Math.min(255, adjusted));
+    curve[value] = Math.round(255 * Math.pow(adjusted / 255, inverseGamma));
+  }
+  return curve;
+}
+
+/**
+ * Row-major 3x3 matrix doing the hue rotation followed by the saturation change, in the
+ * same way as the CSS filters of the same names. Undefined when both are neutral.
+ */
+function createColorMatrix(saturation: number, hueRotation: number): number[] | undefined {
+  if (saturation === 0 && hueRotation === 0) return undefined;
+
+  const [lr, lg, lb] = LUMA;
+  const angle = hueRotation * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const hue = [
+    lr + cos * (1 - lr) - sin * lr, lg - cos * lg - sin * lg, lb - cos * lb + sin * (1 - lb),
+    lr - cos * lr + sin * 0.143, lg + cos * (1 - lg) + sin * 0.14, lb - cos * lb - sin * 0.283,
+    lr - cos * lr - sin * (1 - lr), lg - cos * lg + sin * lg, lb + cos * (1 - lb) + sin * lb
+  ];
+
+  const s = 1 + Math.max(-100, Math.min(100, saturation)) / 100;
+  const saturate = [
+    lr + (1 - lr) * s, lg - lg * s, lb - lb * s,
+    lr - lr * s, lg + (1 - lg) * s, lb - lb * s,
+    lr - lr * s, lg - lg * s, lb + (1 - lb) * s
+  ];
+
+  const matrix = new Array<number>(9);
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 3; column++) {
+      matrix[row * 3 + column] =
+        saturate[row * 3] * hue[column] +
+        saturate[row * 3 + 1] * hue[3 + column] +
+        saturate[row * 3 + 2] * hue[6 + column];
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Unsharp mask: push every pixel away from the average of its 3x3 neighbourhood
+ */
+function sharpen(data: Uint8ClampedArray, width: number, height: number, amount: number): Uint8ClampedArray {
+  const output = new Uint8ClampedArray(data);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      const sum = [0, 0, 0];
+      let count = 0;
+      // Edge pixels only average the neighbours that exist
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const neighbour = (ny * width + nx) * 4;
+          sum[0] += data[neighbour];
+          sum[1] += data[neighbour + 1];
+          sum[2] += data[neighbour + 2];
+          count++;
+        }
+      }
+      for (let channel = 0; channel < 3; channel++) {
+        const value = data[index + channel];
+        output[index + channel] = Math.round(value + (value - sum[channel] / count) * amount);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Lookup table snapping each channel value to the nearest of `levels` evenly spaced values
+ */
+function createPosterizeCurve(levels: number): Uint8ClampedArray {
+  const steps = Math.max(1, Math.min(31, Math.round(levels) - 1));
+  const curve = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    curve[value] = Math.round(Math.round(value / 255 * steps) / steps * 255);
+  }
+  return curve;
+}
@@ -0,0 +1,190 @@
+const NEIGHBOURS_8: Array<[number, number]> = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1]
+];
+
+// Largest same-color island merged into its surroundings, per cleanup strength
+const ISLAND_SIZES = [0, 0, 2, 4];
+
+/**
+ * Tidy a quantized grid the way a pixel artist would:
+ *  - strength 1 replaces orphan pixels that share their color with no neighbour
+ *  - strength 2 also removes doubled elbow pixels on diagonal lines and merges islands of up to 2 cells
+ *  - strength 3 merges islands of up to 4 cells
+ * Transparency counts as a color, so stray specks on a transparent background disappear too.
+ */
+export function cleanupGrid(
+  gridData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  strength: number
+): Uint8ClampedArray {
+  const level = Math.max(0, Math.min(3, Math.round(strength)));
+  if (level === 0) return gridData;
+
+  const output = new Uint8ClampedArray(gridData);
+  const keys = new Float64Array(width * height);
+  for (let i = 0; i < keys.length; i++) {
+    keys[i] = colorKey(output, i);
+  }
+
+  const replace = (cell: number, source: number) => {
+    output.copyWithin(cell * 4, source * 4, source * 4 + 4);
+    keys[cell] = keys[source];
+  };
+
+  removeOrphans(keys, width, height, replace);
+  if (level >= 2) {
+    removeDiagonalDoubles(keys, width, height, replace);
+    mergeIslands(keys, width, height, ISLAND_SIZES[level], replace);
+  }
+
+  return output;
+}
+
+/**
+ * Replace every cell that has no same-colored neighbour with its most common neighbour color
+ */
+function removeOrphans(
+  keys: Float64Array,
+  width: number,
+  height: number,
+  replace: (cell: number, source: number) => void
+): void {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = y * width + x;
+      const neighbours = neighbourCells(x, y, width, height, NEIGHBOURS_8);
+      if (neighbours.length === 0 || neighbours.some(neighbour => keys[neighbour] === keys[cell])) continue;
+      replace(cell, mostCommon(keys, neighbours));
+    }
+  }
+}
+
+/**
+ * Remove the elbow pixel of an L-shaped step on a one pixel wide diagonal line.
+ * The two arms still touch diagonally, so the line stays connected.
+ */
+function removeDiagonalDoubles(
+  keys: Float64Array,
+  width: number,
+  height: number,
+  replace: (cell: number, source: number) => void
+): void {
+  const sameAt = (x: number, y: number, key: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && keys[y * width + x] === key;
+
+  // Border cells are skipped: what lies beyond the edge is unknown
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const cell = y * width + x;
+      const key = keys[cell];
+
+      // Find a horizontal and a vertical arm; a filled corner between them means a solid area
+      const armX = [-1, 1].filter(dx => sameAt(x + dx, y, key));
+      const armY = [-1, 1].filter(dy => sameAt(x, y + dy, key));
+      if (armX.length !== 1 || armY.length !== 1) continue;
+      const [dx] = armX;
+      const [dy] = armY;
+      if (sameAt(x + dx, y + dy, key)) continue;
+
+      // Both arms carrying on straight make a corner of a shape rather than a step of a line
+      if (sameAt(x + dx * 2, y, key) && sameAt(x, y + dy * 2, key)) continue;
+
+      // Any other same-colored neighbour must stay attached to one of the arms
+      const detached = sameAt(x - dx, y - dy, key) ||
+        (sameAt(x + dx, y - dy, key) && !sameAt(x + dx, y, key)) ||
+        (sameAt(x - dx, y + dy, key) && !sameAt(x, y + dy, key));
+      if (detached) continue;
+
+      const neighbours = neighbourCells(x, y, width, height, NEIGHBOURS_8);
+      replace(cell, mostCommon(keys, neighbours.filter(neighbour => keys[neighbour] !== key)));
+    }
+  }
+}
+
+/**
+ * Merge 8-connected same-colored regions of at most maxSize cells into the color
+ * that borders them most. 8-connectivity keeps thin diagonal lines in one piece.
+ */
+function mergeIslands(
+  keys: Float64Array,
+  width: number,
+  height: number,
+  maxSize: number,
+  replace: (cell: number, source: number) => void
+): void {
+  const visited = new Uint8Array(width * height);
+
+  for (let start = 0; start < keys.length; start++) {
+    if (visited[start]) continue;
+
+    // Flood fill the whole region so none of its cells is mistaken for an island later
+    const region = [start];
+    const border: number[] = [];
+    visited[start] = 1;
+    for (let i = 0; i < region.length; i++) {
+      const cell = region[i];
+      for (const neighbour of neighbourCells(cell % width, Math.floor(cell / width), width, height, NEIGHBOURS_8)) {
+        if (keys[neighbour] !== keys[start]) {
+          border.push(neighbour);
+        } else if (!visited[neighbour]) {
+          visited[neighbour] = 1;
+          region.push(neighbour);
+        }
+      }
+    }
+
+    if (region.length > maxSize || border.length === 0) continue;
+    const source = mostCommon(keys, border);
+    for (const cell of region) {
+      replace(cell, source);
+    }
+  }
+}
+
+function neighbourCells(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  offsets: Array<[number, number]>
+): number[] {
+  const cells: number[] = [];
+  for (const [dx, dy] of offsets) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+      cells.push(ny * width + nx);
+    }
+  }
+  return cells;
+}
+
+/**
+ * The cell whose color occurs most often among the given cells
+ */
+function mostCommon(keys: Float64Array, cells: number[]): number {
+  const counts = new Map<number, number>();
+  let best = cells[0];
+  let bestCount = 0;
+  for (const cell of cells) {
+    const count = (counts.get(keys[cell]) || 0) + 1;
+    counts.set(keys[cell], count);
+    if (count > bestCount) {
+      bestCount = count;
+      best = cell;
+    }
+  }
+  return best;
+}
+
+/**
+ * RGBA packed into one number; every fully transparent cell gets the same key
+ */
+function colorKey(data: Uint8ClampedArray, cell: number): number {
+  const index = cell * 4;
+  if (data[index + 3] === 0) return 0;
+  return data[index] * 16777216 + data[index + 1] * 65536 + data[index + 2] * 256 + data[index + 3];
+}
@@ -0,0 +1,145 @@
+export type ColorSpace = 'srgb' | 'linear-rgb' | 'cielab' | 'oklab';
+
+/**
+ * Approximate [min, max] of each component for 8-bit sRGB input
+ */
+export const COLOR_SPACE_RANGES: Record<ColorSpace, Array<[number, number]>> = {
+  srgb: [[0, 255], [0, 255], [0, 255]],
+  'linear-rgb': [[0, 1], [0, 1], [0, 1]],
+  cielab: [[0, 100], [-87, 99], [-108, 95]],
+  oklab: [[0, 1], [-0.24, 0.28], [-0.32, 0.2]]
+};
+
+// D65 reference white
+const WHITE_X = 0.95047;
+const WHITE_Y = 1;
+const WHITE_Z = 1.08883;
+
+/**
+ * Convert an 8-bit sRGB color into the given color space
+ */
+export function rgbToColorSpace(r: number, g: number, b: number, space: ColorSpace): number[] {
+  switch (space) {
+    case 'srgb':
+      return [r, g, b];
+    case 'linear-rgb':
+      return [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+    case 'cielab':
+      return linearToLab(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+    case 'oklab':
+      return linearToOklab(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+  }
+}
+
+/**
+ * Convert a color from the given color space back to 8-bit sRGB
+ */
+export function colorSpaceToRgb(color: number[], space: ColorSpace): number[] {
+  let linear: number[];
+  switch (space) {
+    case 'srgb':
+      return color.map(clampByte);
+    case 'linear-rgb':
+      linear = color;
+      break;
+    case 'cielab':
+      linear = labToLinear(color[0], color[1], color[2]);
+      break;
+    case 'oklab':
+      linear = oklabToLinear(color[0], color[1], color[2]);
+      break;
+  }
+  return linear.map(linearToSrgb);
+}
+
+/**
+ * Squared Euclidean distance between two colors in the same space
+ */
+export function colorDistanceSquared(a: number[], b: number[]): number {
+  const d0 = a[0] - b[0];
+  const d1 = a[1] - b[1];
+  const d2 = a[2] - b[2];
+  return d0 * d0 + d1 * d1 + d2 * d2;
+}
+
+/**
+ * Convert an 8-bit sRGB channel to linear light in [0, 1]
+ */
+export function srgbToLinear(value: number): number {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear light channel in [0, 1] to an 8-bit sRGB channel
+ */
+export function linearToSrgb(value: number): number {
+  const c = value <= 0 ? 0 : value >= 1 ? 1 : value;
+  const encoded = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return clampByte(encoded * 255);
+}
+
+function linearToLab(r: number, g: number, b: number): number[] {
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / WHITE_X;
+  const y = (0.2126729 * r + 0.7151522 * g + 0.072175 * b) / WHITE_Y;
+  const z = (0.0193339 * r + 0.119192 * g + 0.9503041 * b) / WHITE_Z;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToLinear(l: number, a: number, b: number): number[] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const x = labFInverse(fx) * WHITE_X;
+  const y = labFInverse(fy) * WHITE_Y;
+  const z = labFInverse(fz) * WHITE_Z;
+
+  return [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z
+  ];
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  return t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27);
+}
+
+// Matrices from Björn Ottosson's OKLab reference implementation
+function linearToOklab(r: number, g: number, b: number): number[] {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  ];
+}
+
+function oklabToLinear(okL: number, okA: number, okB: number): number[] {
+  const l = Math.pow(okL + 0.3963377774 * okA + 0.2158037573 * okB, 3);
+  const m = Math.pow(okL - 0.1055613458 * okA - 0.0638541728 * okB, 3);
+  const s = Math.pow(okL - 0.0894841775 * okA - 1.291485548 * okB, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ];
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
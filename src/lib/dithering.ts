@@ -0,0 +1,314 @@
+export type ErrorDiffusionAlgorithm = 'floyd-steinberg' | 'atkinson' | 'jarvis-judice-ninke' | 'sierra';
+
+export type DitheringAlgorithm = ErrorDiffusionAlgorithm | 'ordered';
+
+export type OrderedDitherMatrix = 'bayer-2x2' | 'bayer-4x4' | 'bayer-8x8' | 'blue-noise';
+
+/**
+ * Error diffusion kernel: each entry is [dx, dy, weight], weights are divided by `divisor`
+ */
+interface DiffusionKernel {
+  divisor: number;
+  offsets: Array<[number, number, number]>;
+}
+
+const DIFFUSION_KERNELS: Record<ErrorDiffusionAlgorithm, DiffusionKernel> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    offsets: [
+      [1, 0, 7],
+      [-1, 1, 3], [0, 1, 5], [1, 1, 1]
+    ]
+  },
+  // Atkinson only diffuses 6/8 of the error, which keeps highlights and shadows crisp
+  atkinson: {
+    divisor: 8,
+    offsets: [
+      [1, 0, 1], [2, 0, 1],
+      [-1, 1, 1], [0, 1, 1], [1, 1, 1],
+      [0, 2, 1]
+    ]
+  },
+  'jarvis-judice-ninke': {
+    divisor: 48,
+    offsets: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1]
+    ]
+  },
+  sierra: {
+    divisor: 32,
+    offsets: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2]
+    ]
+  }
+};
+
+/**
+ * Map every pixel to a palette color while diffusing the quantization error
+ * to not-yet-visited neighbours. Rows are scanned in serpentine order to
+ * avoid the directional "worm" artifacts of plain left-to-right scanning.
+ * Fully transparent pixels are left as they are and pass no error on.
+ */
+export function applyErrorDiffusion(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  algorithm: ErrorDiffusionAlgorithm,
+  strength: number,
+  findClosestColor: (r: number, g: number, b: number) => number[]
+): Uint8ClampedArray {
+  const kernel = DIFFUSION_KERNELS[algorithm];
+  const newData = new Uint8ClampedArray(data);
+
+  // Work on a float copy so accumulated error is not clamped or rounded early
+  const buffer = new Float32Array(width * height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    buffer[j] = data[i];
+    buffer[j + 1] = data[i + 1];
+    buffer[j + 2] = data[i + 2];
+  }
+
+  for (let y = 0; y < height; y++) {
+    const leftToRight = y % 2 === 0;
+
+    for (let step = 0; step < width; step++) {
+      const x = leftToRight ? step : width - 1 - step;
+      const bufferIndex = (y * width + x) * 3;
+      const pixelIndex = (y * width + x) * 4;
+      if (data[pixelIndex + 3] === 0) continue;
+
+      const r = clampChannel(buffer[bufferIndex]);
+      const g = clampChannel(buffer[bufferIndex + 1]);
+      const b = clampChannel(buffer[bufferIndex + 2]);
+      const closest = findClosestColor(r, g, b);
+
+      newData[pixelIndex] = closest[0];
+      newData[pixelIndex + 1] = closest[1];
+      newData[pixelIndex + 2] = closest[2];
+
+      const errorR = (r - closest[0]) * strength;
+      const errorG = (g - closest[1]) * strength;
+      const errorB = (b - closest[2]) * strength;
+
+      for (const [dx, dy, weight] of kernel.offsets) {
+        const nx = leftToRight ? x + dx : x - dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) continue;
+
+        const factor = weight / kernel.divisor;
+        const neighbourIndex = (ny * width + nx) * 3;
+        buffer[neighbourIndex] += errorR * factor;
+        buffer[neighbourIndex + 1] += errorG * factor;
+        buffer[neighbourIndex + 2] += errorB * factor;
+      }
+    }
+  }
+
+  return newData;
+}
+
+/**
+ * Map every pixel to a palette color after nudging it by a position-dependent
+ * threshold. The pattern only depends on pixel coordinates, so it stays stable
+ * across re-rendered animation frames. Fully transparent pixels are left as they are.
+ *
+ * `spread` is the typical distance between palette colors; the threshold
+ * offsets span that distance scaled by `strength`.
+ */
+export function applyOrderedDither(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  matrix: OrderedDitherMatrix,
+  strength: number,
+  spread: number,
+  findClosestColor: (r: number, g: number, b: number) => number[]
+): Uint8ClampedArray {
+  const thresholds = getThresholdMap(matrix);
+  const size = Math.sqrt(thresholds.length);
+  const newData = new Uint8ClampedArray(data);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixelIndex = (y * width + x) * 4;
+      if (data[pixelIndex + 3] === 0) continue;
+      const offset = (thresholds[(y % size) * size + (x % size)] - 0.5) * spread * strength;
+
+      const closest = findClosestColor(
+        clampChannel(data[pixelIndex] + offset),
+        clampChannel(data[pixelIndex + 1] + offset),
+        clampChannel(data[pixelIndex + 2] + offset)
+      );
+
+      newData[pixelIndex] = closest[0];
+      newData[pixelIndex + 1] = closest[1];
+      newData[pixelIndex + 2] = closest[2];
+    }
+  }
+
+  return newData;
+}
+
+const thresholdMapCache = new Map<OrderedDitherMatrix, Float32Array>();
+
+/**
+ * Get a square threshold map with values in [0, 1)
+ */
+function getThresholdMap(matrix: OrderedDitherMatrix): Float32Array {
+  let thresholds = thresholdMapCache.get(matrix);
+  if (!thresholds) {
+    switch (matrix) {
+      case 'bayer-2x2':
+        thresholds = createBayerMatrix(2);
+        break;
+      case 'bayer-4x4':
+        thresholds = createBayerMatrix(4);
+        break;
+      case 'bayer-8x8':
+        thresholds = createBayerMatrix(8);
+        break;
+      case 'blue-noise':
+        thresholds = createBlueNoiseMatrix(16);
+        break;
+    }
+    thresholdMapCache.set(matrix, thresholds);
+  }
+  return thresholds;
+}
+
+/**
+ * Build a normalized Bayer matrix of the given power-of-two size
+ */
+function createBayerMatrix(size: number): Float32Array {
+  // Recursive definition: M(2n) = [[4M, 4M + 2], [4M + 3, 4M + 1]]
+  let matrix = [0];
+  let currentSize = 1;
+
+  while (currentSize < size) {
+    const nextSize = currentSize * 2;
+    const next = new Array<number>(nextSize * nextSize);
+    for (let y = 0; y < currentSize; y++) {
+      for (let x = 0; x < currentSize; x++) {
+        const value = matrix[y * currentSize + x] * 4;
+        next[y * nextSize + x] = value;
+        next[y * nextSize + x + currentSize] = value + 2;
+        next[(y + currentSize) * nextSize + x] = value + 3;
+        next[(y + currentSize) * nextSize + x + currentSize] = value + 1;
+      }
+    }
+    matrix = next;
+    currentSize = nextSize;
+  }
+
+  const cellCount = size * size;
+  return Float32Array.from(matrix, value => (value + 0.5) / cellCount);
+}
+
+/**
+ * Build a blue-noise threshold map with the void-and-cluster method.
+ * A fixed seed keeps the pattern identical between runs.
+ */
+function createBlueNoiseMatrix(size: number): Float32Array {
+  const cellCount = size * size;
+  const sigma = 1.5;
+
+  // Precompute the toroidal Gaussian falloff for every offset
+  const falloff = new Float32Array(cellCount);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      falloff[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * sigma * sigma));
+    }
+  }
+
+  const pattern = new Uint8Array(cellCount);
+  const energy = new Float32Array(cellCount);
+
+  const togglePoint = (index: number, value: 0 | 1) => {
+    pattern[index] = value;
+    const px = index % size;
+    const py = Math.floor(index / size);
+    const sign = value ? 1 : -1;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const dx = (x - px + size) % size;
+        const dy = (y - py + size) % size;
+        energy[y * size + x] += sign * falloff[dy * size + dx];
+      }
+    }
+  };
+
+  // Tightest cluster: the set point with the highest energy
+  const findTightestCluster = () => {
+    let best = -1;
+    for (let i = 0; i < cellCount; i++) {
+      if (pattern[i] && (best < 0 || energy[i] > energy[best])) best = i;
+    }
+    return best;
+  };
+
+  // Largest void: the empty point with the lowest energy
+  const findLargestVoid = () => {
+    let best = -1;
+    for (let i = 0; i < cellCount; i++) {
+      if (!pattern[i] && (best < 0 || energy[i] < energy[best])) best = i;
+    }
+    return best;
+  };
+
+  // Seed roughly 10% of the cells with a deterministic pseudo-random pattern
+  let seed = 0x9e3779b9;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0x100000000;
+  };
+  const initialCount = Math.max(1, Math.floor(cellCount / 10));
+  let placed = 0;
+  while (placed < initialCount) {
+    const index = Math.floor(random() * cellCount);
+    if (!pattern[index]) {
+      togglePoint(index, 1);
+      placed++;
+    }
+  }
+
+  // Relax the initial pattern until moving a point no longer improves it
+  for (let iteration = 0; iteration < cellCount; iteration++) {
+    const cluster = findTightestCluster();
+    togglePoint(cluster, 0);
+    const emptiest = findLargestVoid();
+    togglePoint(emptiest, 1);
+    if (emptiest === cluster) break;
+  }
+
+  const initialPattern = Uint8Array.from(pattern);
+  const initialEnergy = Float32Array.from(energy);
+  const ranks = new Float32Array(cellCount);
+
+  // Phase 1: rank the initial points by removing tightest clusters first
+  for (let rank = initialCount - 1; rank >= 0; rank--) {
+    const cluster = findTightestCluster();
+    togglePoint(cluster, 0);
+    ranks[cluster] = rank;
+  }
+
+  // Phase 2: restore the initial pattern and fill the largest voids in order
+  pattern.set(initialPattern);
+  energy.set(initialEnergy);
+  for (let rank = initialCount; rank < cellCount; rank++) {
+    const emptiest = findLargestVoid();
+    togglePoint(emptiest, 1);
+    ranks[emptiest] = rank;
+  }
+
+  return Float32Array.from(ranks, rank => (rank + 0.5) / cellCount);
+}
+
+function clampChannel(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : value;
+}
@@ -1,115 +1,147 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-export interface ImageGenerationRequest {
-  prompt: string;
-  style?: string;
-  size?: string;
-  apiKey: string;
-}
-
-export interface ImageGenerationResponse {
-  success: boolean;
-  imageData?: string;
-  error?: string;
-}
+import {
+  GenerateContentResponse,
+  GenerationConfig,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIRequestInputError,
+  SafetyRating
+} from '@google/generative-ai';
+import { classifyHttpError, GenerationError, ImageGenerationError, ImageProvider } from './image-provider';
+
+// Finish reasons meaning a content filter stopped the answer
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+// Image models only answer with pictures when asked for both modalities, and
+// gemini-2.0-flash-preview-image-generation rejects requests without them.
+// This SDK version passes the field through but doesn't declare it yet.
+const IMAGE_GENERATION_CONFIG: GenerationConfig & { responseModalities: string[] } = {
+  responseModalities: ['TEXT', 'IMAGE']
+};
+// Most likely harm first, to name the category that caused a block
+const HARM_PROBABILITIES = ['HIGH', 'MEDIUM', 'LOW', 'NEGLIGIBLE'];
 
 /**
- * Generate pixel art images using Google Gemini's image generation capabilities
+ * Google Gemini image generation through the Generative AI SDK
  */
-export async function generatePixelArtImage(request: ImageGenerationRequest): Promise<ImageGenerationResponse> {
-  try {
+export const geminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Hosted by Google; needs a Gemini API key',
+  models: ['gemini-2.5-flash-image-preview', 'gemini-2.0-flash-preview-image-generation'],
+  apiKey: 'required',
+  maxConcurrency: 2,
+
+  async generate({ prompt, referenceImage, settings, signal }) {
     // Validate API key
-    if (!request.apiKey || request.apiKey.length < 20) {
-      throw new Error('Valid Gemini API key is required');
+    if (!settings.apiKey || settings.apiKey.length < 20) {
+      throw new ImageGenerationError({ kind: 'auth', message: 'Valid Gemini API key is required' });
     }
 
     // Initialize Gemini AI
-    const genAI = new GoogleGenerativeAI(request.apiKey);
-    
-    // Use the correct Gemini image generation model
-    const model = genAI.getGenerativeModel({ 
-      model: 'gemini-2.5-flash-image-preview'
+    const genAI = new GoogleGenerativeAI(settings.apiKey);
+    const model = genAI.getGenerativeModel({
+      model: settings.model?.trim() || geminiProvider.models[0],
+      generationConfig: IMAGE_GENERATION_CONFIG
     });
 
-    // Create optimized prompt for pixel art generation
-    const prompt = createPixelArtPrompt(request.prompt, request.style, request.size);
+    // Generate image using Gemini's image generation capabilities; a reference image goes
+    // along as inline data in front of the instructions
+    let response: GenerateContentResponse;
+    try {
+      const result = await model.generateContent(
+        referenceImage ?
+          [{ inlineData: { data: referenceImage.base64, mimeType: referenceImage.mimeType } }, prompt] :
+          prompt,
+        { signal }
+      );
+      response = result.response;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ImageGenerationError(toGenerationError(error));
+    }
     
-    console.log('Generating pixel art with prompt:', prompt);
+    const blocked = findSafetyBlock(response);
+    if (blocked) {
+      throw new ImageGenerationError(blocked);
+    }
 
-    // Generate image using Gemini's image generation capabilities
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    
-    console.log('Full response from Gemini:', response);
-    
     // Extract image data from response
     const imageData = await extractImageFromResponse(response);
-    
     if (!imageData) {
-      console.error('No image data found in response. Response structure:', JSON.stringify(response, null, 2));
-      console.log('Falling back to canvas-based pixel art generation...');
-      
-      // Try fallback generation
-      const fallbackResult = await generateFallbackPixelArt(request);
-      if (fallbackResult.success) {
-        console.log('Fallback generation successful');
-        return fallbackResult;
-      }
-      
-      throw new Error('No image data received from Gemini and fallback generation failed. Please check the console for detailed response information.');
+      // Only the finish reason; the response itself can be large
+      console.error('No image data in the Gemini response, finish reason:', response.candidates?.[0]?.finishReason);
+      throw new ImageGenerationError({
+        kind: 'no-image',
+        message: 'No image data received from Gemini. The model may have answered with text only.'
+      });
     }
+    return imageData;
+  }
+};
+
+/**
+ * Classify an error thrown by the Generative AI SDK
+ */
+function toGenerationError(error: unknown): GenerationError {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const details = error.errorDetails || [];
+    // An invalid key is answered with 400 rather than 401
+    if (details.some(detail => detail.reason === 'API_KEY_INVALID')) {
+      return { kind: 'auth', message };
+    }
+    // 429 answers say when to retry in a RetryInfo detail, e.g. { retryDelay: '31s' }
+    const retryDelay = details.find(detail => detail['@type']?.endsWith('RetryInfo'))?.retryDelay;
+    const retryAfter = typeof retryDelay === 'string' ? parseFloat(retryDelay) : NaN;
+    return classifyHttpError(error.status ?? 0, message, {
+      retryAfter: Number.isFinite(retryAfter) ? Math.ceil(retryAfter) : undefined
+    });
+  }
+  if (error instanceof GoogleGenerativeAIRequestInputError) {
+    return { kind: 'invalid-request', message };
+  }
+  // The SDK wraps failed fetches as plain GoogleGenerativeAIErrors
+  if (error instanceof GoogleGenerativeAIError) {
+    return { kind: 'network', message };
+  }
+  return { kind: 'unknown', message };
+}
 
+/**
+ * A safety error when the prompt or the answer was blocked, with the most likely harm category
+ */
+function findSafetyBlock(response: GenerateContentResponse): GenerationError | null {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
     return {
-      success: true,
-      imageData: imageData
+      kind: 'safety',
+      message: feedback.blockReasonMessage || `Gemini blocked the prompt (${feedback.blockReason})`,
+      category: getHarmCategory(feedback.safetyRatings)
     };
+  }
 
-  } catch (error) {
-    console.error('Error generating pixel art:', error);
-    
-    // Try fallback generation on any error
-    console.log('Attempting fallback generation due to error...');
-    try {
-      const fallbackResult = await generateFallbackPixelArt(request);
-      if (fallbackResult.success) {
-        console.log('Fallback generation successful after error');
-        return fallbackResult;
-      }
-    } catch (fallbackError) {
-      console.error('Fallback generation also failed:', fallbackError);
-    }
-    
-    let errorMessage = 'Failed to generate pixel art';
-    if (error instanceof Error) {
-      if (error.message.includes('API key')) {
-        errorMessage = 'Invalid API key. Please check your Gemini API key.';
-      } else if (error.message.includes('quota')) {
-        errorMessage = 'API quota exceeded. Please try again later.';
-      } else if (error.message.includes('safety')) {
-        errorMessage = 'Content was blocked by safety filters. Please try a different prompt.';
-      } else if (error.message.includes('model')) {
-        errorMessage = 'Image generation model not available. Please try again later.';
-      } else {
-        errorMessage = error.message;
-      }
-    }
-
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason as string | undefined;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
     return {
-      success: false,
-      error: errorMessage
+      kind: 'safety',
+      message: `Gemini stopped generating the image (${finishReason})`,
+      category: getHarmCategory(candidate?.safetyRatings)
     };
   }
+  return null;
 }
 
 /**
- * Create an optimized prompt for pixel art generation
+ * Readable name of the most likely harm, e.g. 'dangerous content' for HARM_CATEGORY_DANGEROUS_CONTENT
  */
-function createPixelArtPrompt(userPrompt: string, style: string = 'retro gaming', size: string = '256x256'): string {
-  const [width, height] = size.split('x').map(Number);
-  
-  return `Create a pixel art image of "${userPrompt}" in ${style} style. 
-
-Make it ${width}x${height} pixels with clean, blocky pixel art style. Use a limited color palette typical of ${style} games. Ensure crisp, sharp edges with no anti-aliasing. The image should be recognizable and well-composed with good contrast.`;
+function getHarmCategory(ratings: SafetyRating[] = []): string | undefined {
+  const rank = (rating: SafetyRating) => {
+    const index = HARM_PROBABILITIES.indexOf(rating.probability);
+    return index < 0 ? HARM_PROBABILITIES.length : index;
+  };
+  const rating = [...ratings].sort((a, b) => rank(a) - rank(b))[0];
+  return rating?.category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
 }
 
 /**
@@ -117,11 +149,8 @@ Make it ${width}x${height} pixels with clean, blocky pixel art style. Use a limi
  */
 async function extractImageFromResponse(response: unknown): Promise<string | null> {
   try {
-    console.log('Response structure:', JSON.stringify(response, null, 2));
-    
     // Type guard to check if response is an object
     if (!response || typeof response !== 'object') {
-      console.log('Response is not an object');
       return null;
     }
 
@@ -130,22 +159,18 @@ async function extractImageFromResponse(response: unknown): Promise<string | nul
     // Check if response has candidates array
     if (responseObj.candidates && Array.isArray(responseObj.candidates) && responseObj.candidates.length > 0) {
       const candidate = responseObj.candidates[0] as Record<string, unknown>;
-      console.log('First candidate:', JSON.stringify(candidate, null, 2));
       
       // Check if candidate has content with parts
       if (candidate?.content && typeof candidate.content === 'object') {
         const content = candidate.content as Record<string, unknown>;
         if (content.parts && Array.isArray(content.parts)) {
-          console.log('Found parts in candidate content:', content.parts.length);
           for (let i = 0; i < content.parts.length; i++) {
             const part = content.parts[i] as Record<string, unknown>;
-            console.log(`Part ${i}:`, JSON.stringify(part, null, 2));
             
             // Look for inline data (image data)
             if (part.inlineData && typeof part.inlineData === 'object') {
               const inlineData = part.inlineData as Record<string, unknown>;
               if (inlineData.data && typeof inlineData.data === 'string') {
-                console.log('Found image data in inlineData');
                 // Convert base64 data to data URL
                 return `data:image/png;base64,${inlineData.data}`;
               }
@@ -157,14 +182,11 @@ async function extractImageFromResponse(response: unknown): Promise<string | nul
 
     // Alternative: Check if response has parts directly
     if (responseObj.parts && Array.isArray(responseObj.parts)) {
-      console.log('Found parts directly in response:', responseObj.parts.length);
       for (let i = 0; i < responseObj.parts.length; i++) {
         const part = responseObj.parts[i] as Record<string, unknown>;
-        console.log(`Direct part ${i}:`, JSON.stringify(part, null, 2));
         if (part.inlineData && typeof part.inlineData === 'object') {
           const inlineData = part.inlineData as Record<string, unknown>;
           if (inlineData.data && typeof inlineData.data === 'string') {
-            console.log('Found image data in response parts');
             return `data:image/png;base64,${inlineData.data}`;
           }
         }
@@ -174,183 +196,16 @@ async function extractImageFromResponse(response: unknown): Promise<string | nul
     // Check for text response that might contain base64 image data
     if (responseObj.text) {
       const responseText = typeof responseObj.text === 'function' ? (responseObj.text as () => unknown)() : responseObj.text;
-      console.log('Text response:', responseText);
       if (typeof responseText === 'string') {
         const base64Match = responseText.match(/data:image\/[^;]+;base64,([A-Za-z0-9+/=]+)/);
         if (base64Match) {
-          console.log('Found image data in text response');
           return base64Match[0];
         }
       }
     }
 
-    console.log('No image data found in response');
     return null;
-  } catch (error) {
-    console.error('Error extracting image from response:', error);
-    return null;
-  }
-}
-
-/**
- * Fallback pixel art generation using canvas rendering
- * This provides a backup when direct image generation fails
- */
-export async function generateFallbackPixelArt(request: ImageGenerationRequest): Promise<ImageGenerationResponse> {
-  try {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) {
-      throw new Error('Canvas not supported');
-    }
-
-    // Set canvas size
-    const [width, height] = (request.size || '256x256').split('x').map(Number);
-    canvas.width = width;
-    canvas.height = height;
-
-    // Create a simple pixel art representation
-    createSimplePixelArt(ctx, width, height, request.prompt, request.style || 'retro');
-    
-    // Convert to data URL
-    const imageData = canvas.toDataURL('image/png');
-    
-    return {
-      success: true,
-      imageData: imageData
-    };
   } catch {
-    return {
-      success: false,
-      error: 'Fallback generation failed'
-    };
-  }
-}
-
-/**
- * Create a simple pixel art using canvas
- */
-function createSimplePixelArt(
-  ctx: CanvasRenderingContext2D, 
-  width: number, 
-  height: number, 
-  prompt: string, 
-  style: string
-): void {
-  // Clear canvas
-  ctx.clearRect(0, 0, width, height);
-  
-  // Set pixel size for blocky effect
-  const pixelSize = Math.max(2, Math.floor(width / 32));
-  
-  // Define color palettes based on style
-  const palettes = {
-    retro: ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7', '#DDA0DD', '#98D8C8', '#F7DC6F'],
-    gaming: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FFFFFF', '#000000'],
-    pastel: ['#FFB3BA', '#FFDFBA', '#FFFFBA', '#BAFFC9', '#BAE1FF', '#E6B3FF', '#FFB3E6', '#F0F0F0'],
-    monochrome: ['#000000', '#333333', '#666666', '#999999', '#CCCCCC', '#FFFFFF']
-  };
-  
-  const colors = palettes[style as keyof typeof palettes] || palettes.retro;
-  
-  // Generate random pixel art based on prompt
-  const seed = hashString(prompt);
-  const random = seededRandom(seed);
-  
-  // Fill background
-  ctx.fillStyle = colors[0];
-  ctx.fillRect(0, 0, width, height);
-  
-  // Generate pixel pattern
-  for (let x = 0; x < width; x += pixelSize) {
-    for (let y = 0; y < height; y += pixelSize) {
-      if (random() > 0.7) {
-        const colorIndex = Math.floor(random() * colors.length);
-        ctx.fillStyle = colors[colorIndex];
-        ctx.fillRect(x, y, pixelSize, pixelSize);
-      }
-    }
-  }
-  
-  // Add some structured elements based on prompt
-  addPromptBasedElements(ctx, width, height, prompt, colors, pixelSize);
-}
-
-/**
- * Add elements based on the prompt
- */
-function addPromptBasedElements(
-  ctx: CanvasRenderingContext2D,
-  width: number,
-  height: number,
-  prompt: string,
-  colors: string[],
-  pixelSize: number
-): void {
-  const promptLower = prompt.toLowerCase();
-  
-  // Simple pattern recognition for common subjects
-  if (promptLower.includes('cat') || promptLower.includes('animal')) {
-    // Draw a simple cat face
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const size = Math.min(width, height) / 4;
-    
-    // Cat ears
-    ctx.fillStyle = colors[1];
-    ctx.fillRect(centerX - size, centerY - size, pixelSize * 2, pixelSize * 2);
-    ctx.fillRect(centerX + size - pixelSize * 2, centerY - size, pixelSize * 2, pixelSize * 2);
-    
-    // Cat face
-    ctx.fillStyle = colors[2];
-    ctx.fillRect(centerX - size/2, centerY - size/2, size, size);
-    
-    // Eyes
-    ctx.fillStyle = colors[3];
-    ctx.fillRect(centerX - size/3, centerY - size/4, pixelSize, pixelSize);
-    ctx.fillRect(centerX + size/3 - pixelSize, centerY - size/4, pixelSize, pixelSize);
-  }
-  
-  if (promptLower.includes('heart')) {
-    // Draw a simple heart
-    const centerX = width / 2;
-    const centerY = height / 2;
-    const size = Math.min(width, height) / 6;
-    
-    ctx.fillStyle = colors[1];
-    // Heart shape approximation
-    for (let x = -size; x <= size; x += pixelSize) {
-      for (let y = -size; y <= size; y += pixelSize) {
-        const distance = Math.sqrt(x*x + y*y);
-        if (distance <= size) {
-          ctx.fillRect(centerX + x, centerY + y, pixelSize, pixelSize);
-        }
-      }
-    }
-  }
-}
-
-/**
- * Simple hash function for consistent random generation
- */
-function hashString(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
+    return null;
   }
-  return Math.abs(hash);
-}
-
-/**
- * Seeded random number generator
- */
-function seededRandom(seed: number): () => number {
-  let current = seed;
-  return () => {
-    current = (current * 9301 + 49297) % 233280;
-    return current / 233280;
-  };
 }
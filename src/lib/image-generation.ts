@@ -0,0 +1,371 @@
+import { GenerationError, ImageGenerationError, ImageProvider, ImageProviderId, ReferenceImage } from './image-provider';
+import { geminiProvider } from './gemini-image';
+import { openAIProvider } from './openai-image';
+import { comfyUIProvider, stableDiffusionProvider } from './stable-diffusion-image';
+import { mockProvider, renderPatternArt } from './mock-image';
+import { snapToSprite } from './pixel-grid';
+import { fileToDataURL } from './pixelation';
+
+// 'image-to-image' restyles referenceImage following the prompt
+export type GenerationMode = 'text-to-image' | 'image-to-image';
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  style?: string;
+  size?: string;
+  // Defaults to text-to-image
+  mode?: GenerationMode;
+  // Picture to restyle in image-to-image mode, e.g. the file chosen in ImageUpload
+  referenceImage?: Blob;
+  // Defaults to Gemini
+  provider?: ImageProviderId;
+  // Model or checkpoint name; the provider default when empty
+  model?: string;
+  apiKey?: string;
+  // Server root for OpenAI-compatible and self-hosted providers
+  baseUrl?: string;
+  // Redraw the model output as a sprite of exactly `size` with the style's palette size (default true)
+  snapToGrid?: boolean;
+  // Aborts the provider requests still running and skips the variants not started yet
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationResponse {
+  success: boolean;
+  imageData?: string;
+  // Readable message for the user; `failure` says what kind of error it was
+  error?: string;
+  failure?: GenerationError;
+  // Set when imageData is the local canvas pattern rather than a model's image
+  fromFallback?: boolean;
+  cancelled?: boolean;
+}
+
+const CANCELLED_RESPONSE: ImageGenerationResponse = {
+  success: false,
+  cancelled: true,
+  error: 'Generation cancelled'
+};
+
+export interface ArtStyle {
+  name: string;
+  // Palette size the generated image is reduced to
+  colorCount: number;
+}
+
+export const ART_STYLES: ArtStyle[] = [
+  { name: '16-bit retro gaming', colorCount: 32 },
+  { name: '8-bit classic', colorCount: 12 },
+  { name: 'Modern pixel art', colorCount: 48 },
+  { name: 'Minimalist', colorCount: 6 },
+  { name: 'Fantasy RPG', colorCount: 24 },
+  { name: 'Sci-fi cyberpunk', colorCount: 24 },
+  { name: 'Cute chibi', colorCount: 16 },
+  { name: 'Dark gothic', colorCount: 12 }
+];
+
+// Palette size for styles typed in by hand
+const DEFAULT_STYLE_COLORS = 16;
+
+export const MAX_VARIANTS = 8;
+
+// Longest side of reference images sent to providers; models work at about this size anyway
+const REFERENCE_IMAGE_SIZE = 1024;
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [
+  geminiProvider,
+  openAIProvider,
+  stableDiffusionProvider,
+  comfyUIProvider,
+  mockProvider
+];
+
+export function getImageProvider(id: ImageProviderId = 'gemini'): ImageProvider {
+  return IMAGE_PROVIDERS.find(provider => provider.id === id) || geminiProvider;
+}
+
+/**
+ * Called as soon as one variant has finished, successfully or not
+ */
+export type VariantCallback = (index: number, response: ImageGenerationResponse) => void;
+
+/**
+ * Generate pixel art with the requested provider
+ */
+export async function generatePixelArtImage(request: ImageGenerationRequest): Promise<ImageGenerationResponse> {
+  const [response] = await generatePixelArtVariants(request, 1);
+  return response;
+}
+
+/**
+ * Generate several candidates for the same request. At most the provider's maxConcurrency
+ * requests run at once; results come back in variant order.
+ */
+export async function generatePixelArtVariants(
+  request: ImageGenerationRequest,
+  count: number,
+  onVariant?: VariantCallback
+): Promise<ImageGenerationResponse[]> {
+  const provider = getImageProvider(request.provider);
+  const variantCount = Math.max(1, Math.min(MAX_VARIANTS, Math.round(count)));
+
+  // Prompt and reference image are the same for every variant, so prepare them once
+  let prompt: string;
+  let referenceImage: ReferenceImage | undefined;
+  try {
+    if (provider.apiKey === 'required' && !request.apiKey?.trim()) {
+      throw new ImageGenerationError({ kind: 'auth', message: `${provider.name} needs an API key` });
+    }
+
+    const imageToImage = request.mode === 'image-to-image';
+    if (imageToImage && !request.referenceImage) {
+      throw new ImageGenerationError({
+        kind: 'invalid-request',
+        message: 'Image-to-image generation needs a reference image'
+      });
+    }
+
+    // Create optimized prompt for pixel art generation
+    prompt = imageToImage ?
+      createRestylePrompt(request.prompt, request.style, request.size) :
+      createPixelArtPrompt(request.prompt, request.style, request.size);
+    referenceImage = imageToImage && request.referenceImage ?
+      await prepareReferenceImage(request.referenceImage) :
+      undefined;
+  } catch (error) {
+    const failure = request.signal?.aborted ? CANCELLED_RESPONSE : createFailure(error, provider);
+    const responses = Array.from({ length: variantCount }, () => failure);
+    responses.forEach((response, index) => onVariant?.(index, response));
+    return responses;
+  }
+
+  const responses: ImageGenerationResponse[] = new Array(variantCount);
+  let next = 0;
+  const worker = async () => {
+    while (next < variantCount) {
+      const index = next++;
+      responses[index] = await generateVariant(provider, request, prompt, referenceImage, index);
+      onVariant?.(index, responses[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(variantCount, provider.maxConcurrency) }, worker));
+  return responses;
+}
+
+/**
+ * One provider call plus the sprite snapping
+ */
+async function generateVariant(
+  provider: ImageProvider,
+  request: ImageGenerationRequest,
+  prompt: string,
+  referenceImage: ReferenceImage | undefined,
+  variant: number
+): Promise<ImageGenerationResponse> {
+  if (request.signal?.aborted) {
+    return CANCELLED_RESPONSE;
+  }
+
+  try {
+    const [width, height] = parseSize(request.size);
+    let imageData = await provider.generate({
+      prompt,
+      referenceImage,
+      width,
+      height,
+      variant,
+      settings: {
+        apiKey: request.apiKey?.trim(),
+        baseUrl: request.baseUrl,
+        model: request.model
+      },
+      signal: request.signal
+    });
+    if (request.signal?.aborted) {
+      return CANCELLED_RESPONSE;
+    }
+
+    // Models only treat the size and palette as a suggestion, so enforce both afterwards
+    if (request.snapToGrid ?? true) {
+      const style = ART_STYLES.find(option => option.name === request.style);
+      imageData = await snapImageToSprite(imageData, width, height, style?.colorCount || DEFAULT_STYLE_COLORS);
+    }
+
+    return {
+      success: true,
+      imageData: imageData
+    };
+  } catch (error) {
+    return request.signal?.aborted ? CANCELLED_RESPONSE : createFailure(error, provider);
+  }
+}
+
+/**
+ * Turn a thrown error into a failed response with its kind and a readable message
+ */
+function createFailure(error: unknown, provider: ImageProvider): ImageGenerationResponse {
+  let failure: GenerationError;
+  if (error instanceof ImageGenerationError) {
+    // Typed failures are shown to the user, so only unexpected errors are logged
+    failure = error.detail;
+  } else {
+    console.error('Error generating pixel art:', error);
+    failure = { kind: 'unknown', message: error instanceof Error ? error.message : 'Failed to generate pixel art' };
+  }
+
+  return {
+    success: false,
+    error: describeGenerationError(failure, provider),
+    failure
+  };
+}
+
+/**
+ * Message shown to the user for a failed generation
+ */
+export function describeGenerationError(failure: GenerationError, provider: ImageProvider): string {
+  switch (failure.kind) {
+    case 'auth':
+      return `Invalid or missing API key. Please check your ${provider.name} API key.`;
+    case 'rate-limit':
+      return failure.retryAfter !== undefined ?
+        `${provider.name} quota or rate limit reached. Please try again in ${Math.ceil(failure.retryAfter)} seconds.` :
+        `${provider.name} quota or rate limit reached. Please try again later.`;
+    case 'safety':
+      return `Blocked by ${provider.name} safety filters${failure.category ? ` (${failure.category})` : ''}. Please try a different prompt.`;
+    case 'network':
+      return provider.defaultBaseUrl && provider.apiKey === 'none' ?
+        `Could not reach ${provider.name}. Check that the server is running, its URL and its CORS settings.` :
+        `Could not reach ${provider.name}. Please check your connection.`;
+    default:
+      return failure.message;
+  }
+}
+
+/**
+ * Create an optimized prompt for pixel art generation
+ */
+function createPixelArtPrompt(userPrompt: string, style: string = 'retro gaming', size: string = '256x256'): string {
+  const [width, height] = parseSize(size);
+
+  return `Create a pixel art image of "${userPrompt}" in ${style} style.
+
+Make it ${width}x${height} pixels with clean, blocky pixel art style. Use a limited color palette typical of ${style} games. Ensure crisp, sharp edges with no anti-aliasing. The image should be recognizable and well-composed with good contrast.`;
+}
+
+/**
+ * Prompt for restyling an attached image; the user's text says what to turn it into
+ */
+function createRestylePrompt(userPrompt: string, style: string = 'retro gaming', size: string = '256x256'): string {
+  const [width, height] = parseSize(size);
+  const instructions = userPrompt.trim() || `turn this image into ${style} pixel art`;
+
+  return `Redraw the attached image as pixel art in ${style} style: ${instructions}.
+
+Keep the subject, pose and composition of the original recognizable. Make it ${width}x${height} pixels with clean, blocky pixel art style, a limited color palette typical of ${style} games and crisp, sharp edges with no anti-aliasing.`;
+}
+
+/**
+ * Shrink a reference image to REFERENCE_IMAGE_SIZE and re-encode it as PNG, so every
+ * provider gets a format it accepts and uploads stay small
+ */
+function prepareReferenceImage(image: Blob): Promise<ReferenceImage> {
+  const imageUrl = URL.createObjectURL(image);
+  return new Promise<ReferenceImage>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, REFERENCE_IMAGE_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(async (blob) => {
+        if (!blob) {
+          reject(new Error('Failed to encode the reference image'));
+          return;
+        }
+        try {
+          const dataUrl = await fileToDataURL(blob);
+          resolve({
+            blob,
+            base64: dataUrl.slice(dataUrl.indexOf(',') + 1),
+            mimeType: 'image/png',
+            width: canvas.width,
+            height: canvas.height
+          });
+        } catch (error) {
+          reject(error);
+        }
+      }, 'image/png');
+    };
+    img.onerror = () => reject(new Error('Failed to load the reference image'));
+    img.src = imageUrl;
+  }).finally(() => URL.revokeObjectURL(imageUrl));
+}
+
+/**
+ * Run an image URL through snapToSprite and return the sprite as a PNG data URL
+ */
+function snapImageToSprite(imageUrl: string, width: number, height: number, colorCount: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Remote results (OpenAI URLs) must allow CORS for their pixels to be readable
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          throw new Error('Could not get canvas context');
+        }
+        canvas.width = img.width;
+        canvas.height = img.height;
+        ctx.drawImage(img, 0, 0);
+        const source = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+        const sprite = snapToSprite(source.data, source.width, source.height, { width, height, colorCount });
+        canvas.width = sprite.width;
+        canvas.height = sprite.height;
+        ctx.putImageData(new ImageData(new Uint8ClampedArray(sprite.rgba), sprite.width, sprite.height), 0, 0);
+        resolve(canvas.toDataURL('image/png'));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    img.onerror = () => reject(new Error('Failed to load the generated image'));
+    img.src = imageUrl;
+  });
+}
+
+function parseSize(size: string = '256x256'): [number, number] {
+  const [width, height] = size.split('x').map(Number);
+  return [width || 256, height || 256];
+}
+
+/**
+ * Fallback pixel art generation using canvas rendering. Draws a pattern seeded by the prompt
+ * without any model, so callers should label the result as such.
+ */
+export async function generateFallbackPixelArt(
+  request: ImageGenerationRequest,
+  variant: number = 0
+): Promise<ImageGenerationResponse> {
+  try {
+    const [width, height] = parseSize(request.size);
+    return {
+      success: true,
+      imageData: renderPatternArt(request.prompt, request.style || 'retro', width, height, variant),
+      fromFallback: true
+    };
+  } catch {
+    return {
+      success: false,
+      error: 'Fallback generation failed'
+    };
+  }
+}
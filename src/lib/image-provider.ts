@@ -0,0 +1,174 @@
+export type ImageProviderId = 'gemini' | 'openai' | 'stable-diffusion' | 'comfyui' | 'mock';
+
+/**
+ * Why a generation failed, so callers can react without parsing error messages
+ */
+export type GenerationError =
+  // Missing, invalid or unauthorized API key
+  | { kind: 'auth'; message: string }
+  // Quota used up or too many requests; retryAfter is in seconds when the server says
+  | { kind: 'rate-limit'; message: string; retryAfter?: number }
+  // A content filter refused the prompt or the image; category when the provider names it
+  | { kind: 'safety'; message: string; category?: string }
+  // The server could not be reached
+  | { kind: 'network'; message: string }
+  // The request succeeded but the answer held no image
+  | { kind: 'no-image'; message: string }
+  // Settings or input the provider rejects, such as an unknown model
+  | { kind: 'invalid-request'; message: string }
+  | { kind: 'unknown'; message: string };
+
+/**
+ * Error thrown by providers, carrying the failure kind
+ */
+export class ImageGenerationError extends Error {
+  readonly detail: GenerationError;
+
+  constructor(detail: GenerationError) {
+    super(detail.message);
+    this.name = 'ImageGenerationError';
+    this.detail = detail;
+  }
+}
+
+// Error codes OpenAI-compatible servers use when moderation rejects a request
+const SAFETY_ERROR_CODES = ['content_policy_violation', 'moderation_blocked'];
+
+/**
+ * Connection settings entered by the user for a provider
+ */
+export interface ImageProviderSettings {
+  apiKey?: string;
+  // Server root for OpenAI-compatible and self-hosted endpoints; the provider default when empty
+  baseUrl?: string;
+  // Model or checkpoint name; the provider default when empty
+  model?: string;
+}
+
+/**
+ * Picture the model restyles in image-to-image mode, already shrunk and encoded as PNG
+ */
+export interface ReferenceImage {
+  blob: Blob;
+  // Base64 of the PNG, without the data URL prefix
+  base64: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageProviderRequest {
+  // Complete prompt text, style hints included
+  prompt: string;
+  // Set for image-to-image generation
+  referenceImage?: ReferenceImage;
+  // Requested sprite size; providers render at their own resolution with the same aspect ratio
+  width: number;
+  height: number;
+  // Index of this candidate when several are generated for one prompt
+  variant?: number;
+  settings: ImageProviderSettings;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that turns a prompt into an image
+ */
+export interface ImageProvider {
+  id: ImageProviderId;
+  name: string;
+  description: string;
+  // Suggested models, the first being the default; other names can be typed in
+  models: string[];
+  apiKey: 'required' | 'optional' | 'none';
+  // Set for providers whose server address can be changed
+  defaultBaseUrl?: string;
+  // How many requests may run at once when generating variants
+  maxConcurrency: number;
+  /**
+   * Generate one image, restyling the reference image when there is one, and resolve with
+   * its URL (usually a data URL). Rejects with an ImageGenerationError describing the failure.
+   */
+  generate(request: ImageProviderRequest): Promise<string>;
+}
+
+/**
+ * Base URL without trailing slashes, falling back to the provider default
+ */
+export function resolveBaseUrl(provider: ImageProvider, settings: ImageProviderSettings): string {
+  return (settings.baseUrl?.trim() || provider.defaultBaseUrl || '').replace(/\/+$/, '');
+}
+
+/**
+ * Pick a render size of roughly `base` pixels per side that keeps the sprite's aspect ratio,
+ * rounded to a multiple of 64 as diffusion models expect
+ */
+export function getRenderSize(width: number, height: number, base: number): { width: number; height: number } {
+  const aspect = width > 0 && height > 0 ? width / height : 1;
+  const round = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+  return { width: round(base * Math.sqrt(aspect)), height: round(base / Math.sqrt(aspect)) };
+}
+
+/**
+ * Read a failed HTTP response into a typed error, preferring the message from the JSON error body
+ */
+export async function createResponseError(response: Response): Promise<ImageGenerationError> {
+  const text = await response.text().catch(() => '');
+  let message = `${text.slice(0, 200) || response.statusText} (HTTP ${response.status})`;
+  let code: string | undefined;
+  try {
+    const body = JSON.parse(text);
+    const detail = body?.error?.message || body?.error || body?.detail || body?.message;
+    if (typeof detail === 'string') message = `${detail} (HTTP ${response.status})`;
+    // OpenAI-style error code, e.g. 'content_policy_violation' or 'insufficient_quota'
+    const errorCode = body?.error?.code || body?.error?.type;
+    if (typeof errorCode === 'string') code = errorCode;
+  } catch {
+    // Not JSON, use the raw text
+  }
+  return new ImageGenerationError(classifyHttpError(response.status, message, {
+    code,
+    retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+  }));
+}
+
+/**
+ * Map an HTTP status (and error code, when the server sends one) to a generation error
+ */
+export function classifyHttpError(
+  status: number,
+  message: string,
+  { code, retryAfter }: { code?: string; retryAfter?: number } = {}
+): GenerationError {
+  if (code && SAFETY_ERROR_CODES.includes(code)) return { kind: 'safety', message };
+  if (status === 401 || status === 403) return { kind: 'auth', message };
+  if (status === 429) return { kind: 'rate-limit', message, retryAfter };
+  if (status === 400 || status === 404 || status === 422) return { kind: 'invalid-request', message };
+  return { kind: 'unknown', message };
+}
+
+/**
+ * fetch() that reports an unreachable server as a network error. Aborts are passed through.
+ */
+export async function fetchFromProvider(url: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new ImageGenerationError({
+      kind: 'network',
+      message: `Could not reach ${new URL(url).origin}: ${error instanceof Error ? error.message : String(error)}`
+    });
+  }
+}
+
+/**
+ * Retry-After holds either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
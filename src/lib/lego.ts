@@ -0,0 +1,173 @@
+import { PaletteDefinition, rgbToHex } from './palettes';
+
+export interface LegoColor {
+  name: string;
+  color: string;
+}
+
+/**
+ * Number of 1x1 plates needed in one LEGO color
+ */
+export interface LegoPartCount {
+  name: string;
+  color: string;
+  count: number;
+}
+
+/**
+ * Solid LEGO colors currently produced as 1x1 plates (names and RGB values as listed by Rebrickable)
+ */
+export const LEGO_COLORS: LegoColor[] = [
+  { name: 'White', color: '#ffffff' },
+  { name: 'Light Bluish Gray', color: '#a0a5a9' },
+  { name: 'Dark Bluish Gray', color: '#6c6e68' },
+  { name: 'Black', color: '#05131d' },
+  { name: 'Red', color: '#c91a09' },
+  { name: 'Dark Red', color: '#720e0f' },
+  { name: 'Coral', color: '#ff698f' },
+  { name: 'Bright Pink', color: '#e4adc8' },
+  { name: 'Dark Pink', color: '#c870a0' },
+  { name: 'Magenta', color: '#923978' },
+  { name: 'Lavender', color: '#e1d5ed' },
+  { name: 'Medium Lavender', color: '#ac78ba' },
+  { name: 'Dark Purple', color: '#3f3691' },
+  { name: 'Orange', color: '#fe8a18' },
+  { name: 'Dark Orange', color: '#a95500' },
+  { name: 'Bright Light Orange', color: '#f8bb3d' },
+  { name: 'Yellow', color: '#f2cd37' },
+  { name: 'Bright Light Yellow', color: '#fff03a' },
+  { name: 'Yellowish Green', color: '#dfeea5' },
+  { name: 'Lime', color: '#bbe90b' },
+  { name: 'Bright Green', color: '#4b9f4a' },
+  { name: 'Green', color: '#237841' },
+  { name: 'Dark Green', color: '#184632' },
+  { name: 'Olive Green', color: '#9b9a5a' },
+  { name: 'Sand Green', color: '#a0bcac' },
+  { name: 'Dark Turquoise', color: '#008f9b' },
+  { name: 'Medium Azure', color: '#36aebf' },
+  { name: 'Dark Azure', color: '#078bc9' },
+  { name: 'Light Aqua', color: '#adc3c0' },
+  { name: 'Medium Blue', color: '#5a93db' },
+  { name: 'Blue', color: '#0055bf' },
+  { name: 'Dark Blue', color: '#0a3463' },
+  { name: 'Sand Blue', color: '#6074a1' },
+  { name: 'Tan', color: '#e4cd9e' },
+  { name: 'Dark Tan', color: '#958a73' },
+  { name: 'Light Nougat', color: '#f6d7b3' },
+  { name: 'Nougat', color: '#d09168' },
+  { name: 'Medium Nougat', color: '#aa7d55' },
+  { name: 'Reddish Brown', color: '#582a12' },
+  { name: 'Dark Brown', color: '#352100' }
+];
+
+export const LEGO_PALETTE: PaletteDefinition = {
+  id: 'lego',
+  name: 'LEGO',
+  description: 'Solid LEGO plate colors',
+  colors: LEGO_COLORS.map(entry => entry.color)
+};
+
+/**
+ * Count the 1x1 plates needed per LEGO color for a grid already snapped to LEGO_PALETTE.
+ * Fully transparent cells are left empty and not counted.
+ */
+export function countLegoParts(gridData: Uint8ClampedArray): LegoPartCount[] {
+  const namesByColor = new Map(LEGO_COLORS.map(entry => [entry.color, entry.name]));
+  const counts = new Map<string, number>();
+
+  for (let i = 0; i < gridData.length; i += 4) {
+    if (gridData[i + 3] === 0) continue;
+    const color = rgbToHex([gridData[i], gridData[i + 1], gridData[i + 2]]);
+    counts.set(color, (counts.get(color) || 0) + 1);
+  }
+
+  return Array.from(counts, ([color, count]) => ({
+    name: namesByColor.get(color) || color,
+    color,
+    count
+  })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Render every grid cell as a 1x1 plate seen from above: a bevelled square
+ * with a round stud lit from the top left and casting a short shadow
+ */
+export function renderLegoMosaic(
+  gridData: Uint8ClampedArray,
+  gridWidth: number,
+  gridHeight: number,
+  brickSize: number
+): { data: Uint8ClampedArray; width: number; height: number } {
+  const size = Math.max(4, Math.round(brickSize));
+  const width = gridWidth * size;
+  const height = gridHeight * size;
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  const center = size / 2;
+  const studRadius = size * 0.3;
+  const shadowOffset = Math.max(1, size * 0.08);
+  const bevel = size >= 8 ? 1 : 0;
+
+  // The shading pattern is the same for every brick, so compute it once as
+  // [studCoverage, studLight, baseLight] per pixel of a single brick
+  const pattern = new Float32Array(size * size * 3);
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const dx = px + 0.5 - center;
+      const dy = py + 0.5 - center;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const index = (py * size + px) * 3;
+
+      // Anti-aliased stud edge
+      pattern[index] = Math.max(0, Math.min(1, studRadius + 0.5 - distance));
+
+      // Light from the top left: brighter on that side of the stud, darker opposite
+      const facing = distance > 0 ? -(dx + dy) / (distance * Math.SQRT2) : 0;
+      const rim = Math.min(1, distance / studRadius);
+      pattern[index + 1] = facing * 0.3 * rim;
+
+      // Plate bevel plus the stud's shadow falling to the bottom right
+      let baseLight = 0;
+      if (px < bevel || py < bevel) baseLight = 0.15;
+      else if (px >= size - bevel || py >= size - bevel) baseLight = -0.25;
+      const shadowDistance = Math.sqrt(Math.pow(dx - shadowOffset, 2) + Math.pow(dy - shadowOffset, 2));
+      if (shadowDistance < studRadius) baseLight -= 0.2;
+      pattern[index + 2] = baseLight;
+    }
+  }
+
+  for (let gy = 0; gy < gridHeight; gy++) {
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const gridIndex = (gy * gridWidth + gx) * 4;
+      if (gridData[gridIndex + 3] === 0) continue;
+      const color = [gridData[gridIndex], gridData[gridIndex + 1], gridData[gridIndex + 2]];
+
+      for (let py = 0; py < size; py++) {
+        for (let px = 0; px < size; px++) {
+          const patternIndex = (py * size + px) * 3;
+          const coverage = pattern[patternIndex];
+          const studColor = shade(color, pattern[patternIndex + 1]);
+          const baseColor = shade(color, pattern[patternIndex + 2]);
+
+          const outputIndex = ((gy * size + py) * width + gx * size + px) * 4;
+          output[outputIndex] = baseColor[0] + (studColor[0] - baseColor[0]) * coverage;
+          output[outputIndex + 1] = baseColor[1] + (studColor[1] - baseColor[1]) * coverage;
+          output[outputIndex + 2] = baseColor[2] + (studColor[2] - baseColor[2]) * coverage;
+          output[outputIndex + 3] = 255;
+        }
+      }
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * Lighten (amount > 0) towards white or darken (amount < 0) towards black
+ */
+function shade(color: number[], amount: number): number[] {
+  if (amount >= 0) {
+    return color.map(value => value + (255 - value) * amount);
+  }
+  return color.map(value => value * (1 + amount));
+}
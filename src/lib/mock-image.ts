@@ -0,0 +1,168 @@
+import type { ImageProvider } from './image-provider';
+
+/**
+ * Offline provider that draws a pattern seeded by the prompt, or hands back the reference
+ * image unchanged. The same input always gives the same image, which makes it handy for
+ * trying out the UI and the post-processing.
+ */
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Mock (offline)',
+  description: 'Deterministic test pattern drawn locally; sends nothing over the network',
+  models: ['retro', 'gaming', 'pastel', 'monochrome'],
+  apiKey: 'none',
+  maxConcurrency: 8,
+
+  async generate({ prompt, referenceImage, width, height, variant, settings }) {
+    if (referenceImage) {
+      return `data:${referenceImage.mimeType};base64,${referenceImage.base64}`;
+    }
+    return renderPatternArt(prompt, settings.model?.trim() || mockProvider.models[0], width, height, variant);
+  }
+};
+
+/**
+ * Draw the pattern for a prompt with one of the mock palettes and return it as a PNG data URL.
+ * Each variant number gives a different pattern for the same prompt.
+ */
+export function renderPatternArt(prompt: string, style: string, width: number, height: number, variant: number = 0): string {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  
+  if (!ctx) {
+    throw new Error('Canvas not supported');
+  }
+
+  canvas.width = width;
+  canvas.height = height;
+  createSimplePixelArt(ctx, width, height, prompt, style, variant);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Create a simple pixel art using canvas
+ */
+function createSimplePixelArt(
+  ctx: CanvasRenderingContext2D, 
+  width: number, 
+  height: number, 
+  prompt: string, 
+  style: string,
+  variant: number = 0
+): void {
+  // Clear canvas
+  ctx.clearRect(0, 0, width, height);
+  
+  // Set pixel size for blocky effect
+  const pixelSize = Math.max(2, Math.floor(width / 32));
+  
+  // Define color palettes based on style
+  const palettes = {
+    retro: ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7', '#DDA0DD', '#98D8C8', '#F7DC6F'],
+    gaming: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF', '#FFFFFF', '#000000'],
+    pastel: ['#FFB3BA', '#FFDFBA', '#FFFFBA', '#BAFFC9', '#BAE1FF', '#E6B3FF', '#FFB3E6', '#F0F0F0'],
+    monochrome: ['#000000', '#333333', '#666666', '#999999', '#CCCCCC', '#FFFFFF']
+  };
+  
+  const colors = palettes[style as keyof typeof palettes] || palettes.retro;
+  
+  // Generate random pixel art based on prompt
+  const seed = hashString(variant ? `${prompt}#${variant}` : prompt);
+  const random = seededRandom(seed);
+  
+  // Fill background
+  ctx.fillStyle = colors[0];
+  ctx.fillRect(0, 0, width, height);
+  
+  // Generate pixel pattern
+  for (let x = 0; x < width; x += pixelSize) {
+    for (let y = 0; y < height; y += pixelSize) {
+      if (random() > 0.7) {
+        const colorIndex = Math.floor(random() * colors.length);
+        ctx.fillStyle = colors[colorIndex];
+        ctx.fillRect(x, y, pixelSize, pixelSize);
+      }
+    }
+  }
+  
+  // Add some structured elements based on prompt
+  addPromptBasedElements(ctx, width, height, prompt, colors, pixelSize);
+}
+
+/**
+ * Add elements based on the prompt
+ */
+function addPromptBasedElements(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  prompt: string,
+  colors: string[],
+  pixelSize: number
+): void {
+  const promptLower = prompt.toLowerCase();
+  
+  // Simple pattern recognition for common subjects
+  if (promptLower.includes('cat') || promptLower.includes('animal')) {
+    // Draw a simple cat face
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const size = Math.min(width, height) / 4;
+    
+    // Cat ears
+    ctx.fillStyle = colors[1];
+    ctx.fillRect(centerX - size, centerY - size, pixelSize * 2, pixelSize * 2);
+    ctx.fillRect(centerX + size - pixelSize * 2, centerY - size, pixelSize * 2, pixelSize * 2);
+    
+    // Cat face
+    ctx.fillStyle = colors[2];
+    ctx.fillRect(centerX - size/2, centerY - size/2, size, size);
+    
+    // Eyes
+    ctx.fillStyle = colors[3];
+    ctx.fillRect(centerX - size/3, centerY - size/4, pixelSize, pixelSize);
+    ctx.fillRect(centerX + size/3 - pixelSize, centerY - size/4, pixelSize, pixelSize);
+  }
+  
+  if (promptLower.includes('heart')) {
+    // Draw a simple heart
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const size = Math.min(width, height) / 6;
+    
+    ctx.fillStyle = colors[1];
+    // Heart shape approximation
+    for (let x = -size; x <= size; x += pixelSize) {
+      for (let y = -size; y <= size; y += pixelSize) {
+        const distance = Math.sqrt(x*x + y*y);
+        if (distance <= size) {
+          ctx.fillRect(centerX + x, centerY + y, pixelSize, pixelSize);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Simple hash function for consistent random generation
+ */
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Seeded random number generator
+ */
+function seededRandom(seed: number): () => number {
+  let current = seed;
+  return () => {
+    current = (current * 9301 + 49297) % 233280;
+    return current / 233280;
+  };
+}
@@ -0,0 +1,88 @@
+import { createResponseError, fetchFromProvider, ImageGenerationError, ImageProvider, resolveBaseUrl } from './image-provider';
+
+/**
+ * OpenAI's /images/generations and /images/edits endpoints, or any server that implements
+ * the same API (LocalAI, vLLM gateways, Azure-style proxies)
+ */
+export const openAIProvider: ImageProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  description: 'OpenAI or any server exposing /v1/images/generations',
+  models: ['gpt-image-1', 'dall-e-3', 'dall-e-2'],
+  // Self-hosted compatible servers often run without a key
+  apiKey: 'optional',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  maxConcurrency: 2,
+
+  async generate({ prompt, referenceImage, width, height, settings, signal }) {
+    const model = settings.model?.trim() || openAIProvider.models[0];
+    const headers: Record<string, string> = {};
+    if (settings.apiKey?.trim()) {
+      headers.Authorization = `Bearer ${settings.apiKey.trim()}`;
+    }
+
+    const fields: Record<string, string> = {
+      model,
+      prompt,
+      n: '1',
+      size: getImageSize(model, width, height)
+    };
+    // gpt-image models always answer with base64 and reject the parameter
+    if (!model.startsWith('gpt-image')) {
+      fields.response_format = 'b64_json';
+    }
+
+    let response: Response;
+    if (referenceImage) {
+      if (model === 'dall-e-3') {
+        throw new ImageGenerationError({
+          kind: 'invalid-request',
+          message: 'dall-e-3 cannot edit images, use gpt-image-1 or dall-e-2 for image-to-image'
+        });
+      }
+      // Image-to-image goes through the edits endpoint, which takes multipart form data
+      const form = new FormData();
+      for (const [name, value] of Object.entries(fields)) {
+        form.append(name, value);
+      }
+      form.append('image', referenceImage.blob, 'reference.png');
+      response = await fetchFromProvider(`${resolveBaseUrl(openAIProvider, settings)}/images/edits`, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal
+      });
+    } else {
+      response = await fetchFromProvider(`${resolveBaseUrl(openAIProvider, settings)}/images/generations`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...fields, n: 1 }),
+        signal
+      });
+    }
+    if (!response.ok) {
+      throw await createResponseError(response);
+    }
+
+    const result = await response.json();
+    const image = result?.data?.[0];
+    if (typeof image?.b64_json === 'string') {
+      return `data:image/png;base64,${image.b64_json}`;
+    }
+    if (typeof image?.url === 'string') {
+      return image.url;
+    }
+    throw new ImageGenerationError({ kind: 'no-image', message: 'No image data received from the image endpoint' });
+  }
+};
+
+/**
+ * The closest size the model accepts for the sprite's aspect ratio
+ */
+function getImageSize(model: string, width: number, height: number): string {
+  if (model === 'dall-e-2') return '512x512';
+  const aspect = width / height;
+  if (aspect > 1.2) return model === 'dall-e-3' ? '1792x1024' : '1536x1024';
+  if (aspect < 1 / 1.2) return model === 'dall-e-3' ? '1024x1792' : '1024x1536';
+  return '1024x1024';
+}
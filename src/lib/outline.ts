@@ -0,0 +1,121 @@
+import { hexToRgb } from './palettes';
+
+export type OutlinePosition = 'outer' | 'inner';
+
+// 4 only looks at the cells above, below, left and right; 8 also at the diagonals
+export type OutlineConnectivity = 4 | 8;
+
+// Where the subject silhouette comes from: non-transparent cells, or cells that differ from a background color
+export type SilhouetteSource = 'alpha' | 'background';
+
+export interface OutlineOptions {
+  // Hex color, or 'auto' to darken the neighbouring subject color
+  color: string;
+  position: OutlinePosition;
+  connectivity: OutlineConnectivity;
+  source: SilhouetteSource;
+  // Background color for the 'background' source; defaults to the top-left cell
+  backgroundKey?: string;
+  // Largest per-channel difference from the background key that still counts as background
+  keyTolerance: number;
+}
+
+const NEIGHBOURS_4: Array<[number, number]> = [[0, -1], [-1, 0], [1, 0], [0, 1]];
+const NEIGHBOURS_8: Array<[number, number]> = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1]
+];
+
+// How much 'auto' outlines darken the subject color
+const AUTO_DARKEN = 0.55;
+
+/**
+ * Draw a one-cell outline along the subject silhouette of a grid. Outer outlines
+ * replace the background cells touching the subject, inner outlines the subject's own
+ * edge cells. `matchColor` snaps the outline colors to the image palette when given.
+ */
+export function applyOutline(
+  gridData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: OutlineOptions,
+  matchColor?: (r: number, g: number, b: number) => number[]
+): Uint8ClampedArray {
+  const subject = findSilhouette(gridData, width, height, options);
+  const neighbours = options.connectivity === 4 ? NEIGHBOURS_4 : NEIGHBOURS_8;
+  const fixedColor = options.color === 'auto' ? undefined : hexToRgb(options.color);
+  const outer = options.position === 'outer';
+  const output = new Uint8ClampedArray(gridData);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = y * width + x;
+      // Outer outlines grow into the background, inner ones eat into the subject
+      if (subject[cell] === (outer ? 1 : 0)) continue;
+
+      const sum = [0, 0, 0];
+      let touching = 0;
+      for (const [dx, dy] of neighbours) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const neighbour = ny * width + nx;
+        if (subject[neighbour] !== (outer ? 1 : 0)) continue;
+        touching++;
+        sum[0] += gridData[neighbour * 4];
+        sum[1] += gridData[neighbour * 4 + 1];
+        sum[2] += gridData[neighbour * 4 + 2];
+      }
+      if (touching === 0) continue;
+
+      let color = fixedColor;
+      if (!color) {
+        // Darken the subject color next to the outline (outer) or under it (inner)
+        const base = outer ?
+          sum.map(value => value / touching) :
+          [gridData[cell * 4], gridData[cell * 4 + 1], gridData[cell * 4 + 2]];
+        color = base.map(value => value * AUTO_DARKEN);
+      }
+      if (matchColor) color = matchColor(color[0], color[1], color[2]);
+
+      output[cell * 4] = color[0];
+      output[cell * 4 + 1] = color[1];
+      output[cell * 4 + 2] = color[2];
+      output[cell * 4 + 3] = 255;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Mark the subject cells with 1 and the background cells with 0
+ */
+function findSilhouette(
+  gridData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: OutlineOptions
+): Uint8Array {
+  const subject = new Uint8Array(width * height);
+
+  if (options.source === 'alpha') {
+    for (let i = 0; i < subject.length; i++) {
+      subject[i] = gridData[i * 4 + 3] > 0 ? 1 : 0;
+    }
+    return subject;
+  }
+
+  const key = options.backgroundKey ? hexToRgb(options.backgroundKey) : [gridData[0], gridData[1], gridData[2]];
+  for (let i = 0; i < subject.length; i++) {
+    const index = i * 4;
+    const isBackground = gridData[index + 3] === 0 || (
+      Math.abs(gridData[index] - key[0]) <= options.keyTolerance &&
+      Math.abs(gridData[index + 1] - key[1]) <= options.keyTolerance &&
+      Math.abs(gridData[index + 2] - key[2]) <= options.keyTolerance
+    );
+    subject[i] = isBackground ? 0 : 1;
+  }
+  return subject;
+}
@@ -0,0 +1,450 @@
+import { colorSpaceToRgb } from './color-space';
+import { hexToRgb, PaletteDefinition, PaletteEntry, rgbToHex } from './palettes';
+import type { PixelationResult } from './pixelation';
+
+export type PaletteFileFormat = 'gpl' | 'paint-net' | 'jasc-pal' | 'hex' | 'ase';
+
+export type PaletteExportFormat = 'gpl' | 'hex' | 'jasc-pal' | 'ase' | 'json';
+
+export const PALETTE_EXPORT_FORMATS: Record<PaletteExportFormat, { label: string; extension: string; mimeType: string }> = {
+  gpl: { label: 'GIMP / Aseprite (.gpl)', extension: 'gpl', mimeType: 'text/plain' },
+  hex: { label: 'Hex list (.hex)', extension: 'hex', mimeType: 'text/plain' },
+  'jasc-pal': { label: 'JASC (.pal)', extension: 'pal', mimeType: 'text/plain' },
+  ase: { label: 'Adobe Swatch Exchange (.ase)', extension: 'ase', mimeType: 'application/octet-stream' },
+  json: { label: 'JSON (.json)', extension: 'json', mimeType: 'application/json' }
+};
+
+/**
+ * Error raised while parsing a palette file; `line` is 1-based for text
+ * formats, `offset` is the byte position for binary formats
+ */
+export class PaletteParseError extends Error {
+  line?: number;
+  offset?: number;
+
+  constructor(message: string, location: { line?: number; offset?: number } = {}) {
+    const where = location.line !== undefined ?
+      `Line ${location.line}: ` :
+      location.offset !== undefined ? `Byte ${location.offset}: ` : '';
+    super(`${where}${message}`);
+    this.name = 'PaletteParseError';
+    this.line = location.line;
+    this.offset = location.offset;
+  }
+}
+
+/**
+ * Read a palette file chosen by the user. Parse errors come back in `error` with their
+ * line number or byte offset, like any other pixelation failure.
+ */
+export async function loadPaletteFile(file: File): Promise<PixelationResult> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    return {
+      success: true,
+      customPalette: parsePaletteFile(bytes, file.name)
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load palette'
+    };
+  }
+}
+
+/**
+ * Parse palette file contents, picking the format from the file extension or the content
+ */
+export function parsePaletteFile(bytes: Uint8Array, fileName: string): PaletteDefinition {
+  const format = detectPaletteFormat(bytes, fileName);
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'Custom palette';
+
+  let palette: PaletteDefinition;
+  if (format === 'ase') {
+    palette = parseAse(bytes, baseName);
+  } else {
+    const text = new TextDecoder('utf-8').decode(bytes);
+    switch (format) {
+      case 'gpl':
+        palette = parseGpl(text, baseName);
+        break;
+      case 'jasc-pal':
+        palette = parseJascPal(text, baseName);
+        break;
+      case 'paint-net':
+        palette = parsePaintNet(text, baseName);
+        break;
+      case 'hex':
+        palette = parseHex(text, baseName);
+        break;
+    }
+  }
+
+  if (palette.colors.length === 0) {
+    throw new PaletteParseError('Palette file does not contain any colors');
+  }
+  return palette;
+}
+
+/**
+ * Work out the palette format from the file signature, falling back to the extension
+ */
+export function detectPaletteFormat(bytes: Uint8Array, fileName: string): PaletteFileFormat {
+  const signature = String.fromCharCode(...bytes.slice(0, 12));
+  if (signature.startsWith('ASEF')) return 'ase';
+  if (signature.startsWith('GIMP Palette')) return 'gpl';
+  if (signature.startsWith('JASC-PAL')) return 'jasc-pal';
+
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'gpl':
+      return 'gpl';
+    case 'pal':
+      return 'jasc-pal';
+    case 'ase':
+      return 'ase';
+    case 'hex':
+      return 'hex';
+    case 'txt':
+      return 'paint-net';
+    default:
+      throw new PaletteParseError(`Unsupported palette format: ${fileName}`);
+  }
+}
+
+/**
+ * GIMP palette: "GIMP Palette" header, optional Name/Columns, then "R G B [name]" lines
+ */
+function parseGpl(text: string, fallbackName: string): PaletteDefinition {
+  const lines = splitLines(text);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) {
+    throw new PaletteParseError('Missing "GIMP Palette" header', { line: 1 });
+  }
+
+  let name = fallbackName;
+  const colors: string[] = [];
+
+  lines.slice(1).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 2;
+    if (!line || line.startsWith('#')) return;
+
+    const nameMatch = line.match(/^Name:\s*(.*)$/i);
+    if (nameMatch) {
+      name = nameMatch[1] || name;
+      return;
+    }
+    if (/^Columns:/i.test(line)) return;
+
+    const [r, g, b] = line.split(/\s+/);
+    colors.push(rgbToHex([
+      parseChannel(r, lineNumber),
+      parseChannel(g, lineNumber),
+      parseChannel(b, lineNumber)
+    ]));
+  });
+
+  return { id: 'custom', name, colors };
+}
+
+/**
+ * JASC (Paint Shop Pro) palette: "JASC-PAL", version, color count, then "R G B" lines
+ */
+function parseJascPal(text: string, fallbackName: string): PaletteDefinition {
+  const lines = splitLines(text);
+  if (lines[0]?.trim() !== 'JASC-PAL') {
+    throw new PaletteParseError('Missing "JASC-PAL" header', { line: 1 });
+  }
+  if (!/^\d+$/.test(lines[1]?.trim() ?? '')) {
+    throw new PaletteParseError('Missing version number', { line: 2 });
+  }
+
+  const declaredCount = Number(lines[2]?.trim());
+  if (!Number.isInteger(declaredCount) || declaredCount < 0) {
+    throw new PaletteParseError('Missing or invalid color count', { line: 3 });
+  }
+
+  const colors: string[] = [];
+  lines.slice(3).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 4;
+    if (!line || colors.length >= declaredCount) return;
+
+    const parts = line.split(/\s+/);
+    if (parts.length < 3) {
+      throw new PaletteParseError(`Expected "R G B", got "${line}"`, { line: lineNumber });
+    }
+    colors.push(rgbToHex([
+      parseChannel(parts[0], lineNumber),
+      parseChannel(parts[1], lineNumber),
+      parseChannel(parts[2], lineNumber)
+    ]));
+  });
+
+  if (colors.length < declaredCount) {
+    throw new PaletteParseError(
+      `Header declares ${declaredCount} colors but only ${colors.length} were found`,
+      { line: lines.length }
+    );
+  }
+
+  return { id: 'custom', name: fallbackName, colors };
+}
+
+/**
+ * Paint.NET palette: ";" comments and one AARRGGBB (or RRGGBB) hex value per line
+ */
+function parsePaintNet(text: string, fallbackName: string): PaletteDefinition {
+  const colors: string[] = [];
+
+  splitLines(text).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) return;
+
+    if (/^[0-9a-f]{8}$/i.test(line)) {
+      // Alpha comes first and is dropped
+      colors.push(`#${line.slice(2).toLowerCase()}`);
+    } else if (/^[0-9a-f]{6}$/i.test(line)) {
+      colors.push(`#${line.toLowerCase()}`);
+    } else {
+      throw new PaletteParseError(`Expected AARRGGBB hex color, got "${line}"`, { line: index + 1 });
+    }
+  });
+
+  return { id: 'custom', name: fallbackName, colors };
+}
+
+/**
+ * Plain hex palette (as exported by Lospec): one RRGGBB value per line
+ */
+function parseHex(text: string, fallbackName: string): PaletteDefinition {
+  const colors: string[] = [];
+
+  splitLines(text).forEach((rawLine, index) => {
+    const line = rawLine.trim().replace(/^#/, '');
+    if (!line) return;
+
+    if (!/^[0-9a-f]{6}$/i.test(line)) {
+      throw new PaletteParseError(`Expected RRGGBB hex color, got "${rawLine.trim()}"`, { line: index + 1 });
+    }
+    colors.push(`#${line.toLowerCase()}`);
+  });
+
+  return { id: 'custom', name: fallbackName, colors };
+}
+
+/**
+ * Adobe Swatch Exchange: big-endian binary with "ASEF" signature, version and
+ * a list of group and color entry blocks
+ */
+function parseAse(bytes: Uint8Array, fallbackName: string): PaletteDefinition {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const ensure = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new PaletteParseError('Unexpected end of file', { offset });
+    }
+  };
+
+  ensure(12);
+  if (String.fromCharCode(...bytes.slice(0, 4)) !== 'ASEF') {
+    throw new PaletteParseError('Missing "ASEF" signature', { offset: 0 });
+  }
+  const blockCount = view.getUint32(8);
+  offset = 12;
+
+  let name = fallbackName;
+  const colors: string[] = [];
+
+  for (let block = 0; block < blockCount; block++) {
+    ensure(6);
+    const blockStart = offset;
+    const blockType = view.getUint16(offset);
+    const blockLength = view.getUint32(offset + 2);
+    offset += 6;
+    ensure(blockLength);
+    const blockEnd = offset + blockLength;
+
+    // 0xc001 = group start (its title names the palette), 0x0001 = color entry
+    if (blockType === 0xc001 && blockLength >= 2) {
+      const title = readAseString(view, offset);
+      if (title) name = title;
+    } else if (blockType === 0x0001) {
+      const nameLength = view.getUint16(offset);
+      offset += 2 + nameLength * 2;
+      const model = String.fromCharCode(...bytes.slice(offset, offset + 4));
+      offset += 4;
+
+      const readFloat = () => {
+        if (offset + 4 > blockEnd) {
+          throw new PaletteParseError('Color entry is truncated', { offset: blockStart });
+        }
+        const value = view.getFloat32(offset);
+        offset += 4;
+        return value;
+      };
+
+      switch (model) {
+        case 'RGB ': {
+          const r = readFloat();
+          const g = readFloat();
+          const b = readFloat();
+          colors.push(rgbToHex([r * 255, g * 255, b * 255]));
+          break;
+        }
+        case 'CMYK': {
+          const c = readFloat();
+          const m = readFloat();
+          const y = readFloat();
+          const k = readFloat();
+          colors.push(rgbToHex([
+            255 * (1 - c) * (1 - k),
+            255 * (1 - m) * (1 - k),
+            255 * (1 - y) * (1 - k)
+          ]));
+          break;
+        }
+        case 'LAB ': {
+          // L is stored as 0-1, a and b as -128..127
+          const l = readFloat() * 100;
+          const a = readFloat();
+          const b = readFloat();
+          colors.push(rgbToHex(colorSpaceToRgb([l, a, b], 'cielab')));
+          break;
+        }
+        case 'Gray': {
+          const value = readFloat() * 255;
+          colors.push(rgbToHex([value, value, value]));
+          break;
+        }
+        default:
+          throw new PaletteParseError(`Unsupported color model "${model.trim()}"`, { offset: blockStart });
+      }
+    }
+
+    offset = blockEnd;
+  }
+
+  return { id: 'custom', name, colors };
+}
+
+/**
+ * Read a length-prefixed, null-terminated UTF-16BE string
+ */
+function readAseString(view: DataView, offset: number): string {
+  const length = view.getUint16(offset);
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint16(offset + 2 + i * 2);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+}
+
+/**
+ * Write palette entries in the given file format; ASE is binary, everything else is text
+ */
+export function serializePalette(
+  entries: PaletteEntry[],
+  format: PaletteExportFormat,
+  name: string = 'Pixel Art Palette'
+): string | Uint8Array<ArrayBuffer> {
+  const colors = entries.map(entry => ({ ...entry, rgb: hexToRgb(entry.color) }));
+
+  switch (format) {
+    case 'gpl':
+      return [
+        'GIMP Palette',
+        `Name: ${name}`,
+        'Columns: 8',
+        '#',
+        ...colors.map(({ rgb, color, count }) =>
+          `${rgb.map(value => String(value).padStart(3)).join(' ')}\t${color} (${count} px)`
+        ),
+        ''
+      ].join('\n');
+    case 'hex':
+      return colors.map(({ color }) => color.slice(1)).join('\n') + '\n';
+    case 'jasc-pal':
+      // JASC files conventionally use CRLF line endings
+      return [
+        'JASC-PAL',
+        '0100',
+        String(colors.length),
+        ...colors.map(({ rgb }) => rgb.join(' ')),
+        ''
+      ].join('\r\n');
+    case 'json':
+      return JSON.stringify({
+        name,
+        colors: colors.map(({ color, rgb, count }) => ({ hex: color, rgb, count }))
+      }, null, 2);
+    case 'ase':
+      return writeAse(colors);
+  }
+}
+
+/**
+ * Write RGB color entries (named by their hex value) as an Adobe Swatch Exchange file
+ */
+function writeAse(colors: Array<{ color: string; rgb: number[] }>): Uint8Array<ArrayBuffer> {
+  const blocks = colors.map(({ color, rgb }) => {
+    // Name: UTF-16BE with terminating null, length counted in characters
+    const nameLength = color.length + 1;
+    const blockLength = 2 + nameLength * 2 + 4 + 12 + 2;
+    const block = new DataView(new ArrayBuffer(6 + blockLength));
+    let offset = 0;
+
+    block.setUint16(offset, 0x0001);
+    block.setUint32(offset + 2, blockLength);
+    offset += 6;
+    block.setUint16(offset, nameLength);
+    offset += 2;
+    for (let i = 0; i < color.length; i++) {
+      block.setUint16(offset, color.charCodeAt(i));
+      offset += 2;
+    }
+    block.setUint16(offset, 0);
+    offset += 2;
+    for (const char of 'RGB ') {
+      block.setUint8(offset++, char.charCodeAt(0));
+    }
+    for (const value of rgb) {
+      block.setFloat32(offset, value / 255);
+      offset += 4;
+    }
+    // Color type 2 = normal (0 = global, 1 = spot)
+    block.setUint16(offset, 2);
+
+    return new Uint8Array(block.buffer);
+  });
+
+  const header = new DataView(new ArrayBuffer(12));
+  'ASEF'.split('').forEach((char, index) => header.setUint8(index, char.charCodeAt(0)));
+  header.setUint16(4, 1);
+  header.setUint16(6, 0);
+  header.setUint32(8, blocks.length);
+
+  const output = new Uint8Array(12 + blocks.reduce((sum, block) => sum + block.length, 0));
+  output.set(new Uint8Array(header.buffer), 0);
+  let position = 12;
+  for (const block of blocks) {
+    output.set(block, position);
+    position += block.length;
+  }
+  return output;
+}
+
+function parseChannel(value: string | undefined, line: number): number {
+  const channel = Number(value);
+  if (value === undefined || !Number.isInteger(channel) || channel < 0 || channel > 255) {
+    throw new PaletteParseError(`Invalid color channel "${value ?? ''}" (expected 0-255)`, { line });
+  }
+  return channel;
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/^\uFEFF/, '').split(/\r?\n/);
+}
@@ -0,0 +1,131 @@
+export interface PaletteDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  // Colors as #RRGGBB hex strings
+  colors: string[];
+}
+
+/**
+ * A color of a quantized image and how many pixels (blocks) use it
+ */
+export interface PaletteEntry {
+  color: string;
+  count: number;
+}
+
+/**
+ * EGA's 64-color palette is every combination of four intensity levels per channel
+ */
+const EGA_COLORS = (() => {
+  const levels = ['00', '55', 'aa', 'ff'];
+  const colors: string[] = [];
+  for (const r of levels) {
+    for (const g of levels) {
+      for (const b of levels) {
+        colors.push(`#${r}${g}${b}`);
+      }
+    }
+  }
+  return colors;
+})();
+
+/**
+ * Fixed hardware and community palettes available to the "palette" algorithm
+ */
+export const BUILT_IN_PALETTES: PaletteDefinition[] = [
+  {
+    id: 'nes',
+    name: 'NES',
+    description: 'Nintendo Entertainment System (2C02 PPU)',
+    colors: [
+      '#000000', '#fcfcfc', '#f8f8f8', '#bcbcbc', '#7c7c7c', '#a4e4fc', '#3cbcfc', '#0078f8',
+      '#0000fc', '#b8b8f8', '#6888fc', '#0058f8', '#0000bc', '#d8b8f8', '#9878f8', '#6844fc',
+      '#4428bc', '#f8b8f8', '#f878f8', '#d800cc', '#940084', '#f8a4c0', '#f85898', '#e40058',
+      '#a80020', '#f0d0b0', '#f87858', '#f83800', '#a81000', '#fce0a8', '#fca044', '#e45c10',
+      '#881400', '#f8d878', '#f8b800', '#ac7c00', '#503000', '#d8f878', '#b8f818', '#00b800',
+      '#007800', '#b8f8b8', '#58d854', '#00a800', '#006800', '#b8f8d8', '#58f898', '#00a844',
+      '#005800', '#00fcfc', '#00e8d8', '#008888', '#004058', '#f8d8f8', '#787878'
+    ]
+  },
+  {
+    id: 'gameboy',
+    name: 'Game Boy',
+    description: 'Original DMG green LCD shades',
+    colors: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f']
+  },
+  {
+    id: 'pico-8',
+    name: 'PICO-8',
+    description: 'PICO-8 fantasy console',
+    colors: [
+      '#000000', '#1d2b53', '#7e2553', '#008751', '#ab5236', '#5f574f', '#c2c3c7', '#fff1e8',
+      '#ff004d', '#ffa300', '#ffec27', '#00e436', '#29adff', '#83769c', '#ff77a8', '#ffccaa'
+    ]
+  },
+  {
+    id: 'c64',
+    name: 'Commodore 64',
+    description: 'VIC-II colors (Pepto)',
+    colors: [
+      '#000000', '#ffffff', '#68372b', '#70a4b2', '#6f3d86', '#588d43', '#352879', '#b8c76f',
+      '#6f4f25', '#433900', '#9a6759', '#444444', '#6c6c6c', '#9ad284', '#6c5eb5', '#959595'
+    ]
+  },
+  {
+    id: 'cga',
+    name: 'CGA',
+    description: 'IBM Color Graphics Adapter, full 16 colors',
+    colors: [
+      '#000000', '#0000aa', '#00aa00', '#00aaaa', '#aa0000', '#aa00aa', '#aa5500', '#aaaaaa',
+      '#555555', '#5555ff', '#55ff55', '#55ffff', '#ff5555', '#ff55ff', '#ffff55', '#ffffff'
+    ]
+  },
+  {
+    id: 'ega',
+    name: 'EGA',
+    description: 'IBM Enhanced Graphics Adapter, full 64 colors',
+    colors: EGA_COLORS
+  },
+  {
+    id: 'sweetie-16',
+    name: 'Sweetie 16',
+    description: 'GrafxKid\'s Sweetie 16',
+    colors: [
+      '#1a1c2c', '#5d275d', '#b13e53', '#ef7d57', '#ffcd75', '#a7f070', '#38b764', '#257179',
+      '#29366f', '#3b5dc9', '#41a6f6', '#73eff7', '#f4f4f4', '#94b0c2', '#566c86', '#333c57'
+    ]
+  }
+];
+
+/**
+ * Look up a built-in palette by id
+ */
+export function getPalette(id: string): PaletteDefinition | undefined {
+  return BUILT_IN_PALETTES.find(palette => palette.id === id);
+}
+
+/**
+ * Parse a #RGB or #RRGGBB hex string into [r, g, b]
+ */
+export function hexToRgb(hex: string): number[] {
+  let value = hex.trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value.split('').map(char => char + char).join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(`Invalid hex color: ${hex}`);
+  }
+  return [
+    parseInt(value.slice(0, 2), 16),
+    parseInt(value.slice(2, 4), 16),
+    parseInt(value.slice(4, 6), 16)
+  ];
+}
+
+/**
+ * Format [r, g, b] as a #rrggbb hex string
+ */
+export function rgbToHex(color: number[]): string {
+  return '#' + color.slice(0, 3).map(value => Math.round(value).toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,225 @@
+import { pixelate, PixelatedImage } from './pixelation-core';
+
+/**
+ * The cell grid of an upscaled pixel art image, in source pixels
+ */
+export interface PixelGrid {
+  cellWidth: number;
+  cellHeight: number;
+  // Position of the first full cell
+  offsetX: number;
+  offsetY: number;
+  columns: number;
+  rows: number;
+}
+
+export interface SpriteSnapOptions {
+  // Exact size of the finished sprite
+  width: number;
+  height: number;
+  colorCount: number;
+}
+
+// Cell edges must carry this many times the average edge energy to count as a grid
+const MIN_GRID_CONTRAST = 1.8;
+// Candidate cell sizes are tried in steps of this many pixels, since AI images rarely use whole numbers
+const PERIOD_STEP = 0.1;
+// The smallest cell size scoring within this fraction of the best wins. Multiples of the real
+// size score about the same (a little higher by chance), halves of it only around half as much.
+const PERIOD_TOLERANCE = 0.75;
+// A whole-number cell size is preferred when it scores at least this fraction of the peak
+const INTEGER_PERIOD_TOLERANCE = 0.95;
+
+/**
+ * Find the pixel grid of an image that shows upscaled pixel art, such as the output of an
+ * image model asked for pixel art. Looks for evenly spaced columns and rows where the color
+ * changes much more than elsewhere. Returns null when there is no clear grid.
+ */
+export function detectPixelGrid(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): PixelGrid | null {
+  const columnEnergy = new Float64Array(width);
+  const rowEnergy = new Float64Array(height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      if (x > 0) columnEnergy[x] += colorDifference(rgba, index, index - 4);
+      if (y > 0) rowEnergy[y] += colorDifference(rgba, index, index - width * 4);
+    }
+  }
+
+  const columns = findPeriod(columnEnergy);
+  const rows = findPeriod(rowEnergy);
+  if (!columns && !rows) return null;
+
+  // Cells are nearly always square, so one clear axis is enough
+  const horizontal = columns || { period: rows!.period, phase: 0 };
+  const vertical = rows || { period: columns!.period, phase: 0 };
+  return {
+    cellWidth: horizontal.period,
+    cellHeight: vertical.period,
+    offsetX: horizontal.phase,
+    offsetY: vertical.phase,
+    columns: Math.max(1, Math.floor((width - horizontal.phase) / horizontal.period + 0.25)),
+    rows: Math.max(1, Math.floor((height - vertical.phase) / vertical.period + 0.25))
+  };
+}
+
+/**
+ * Turn an image into a sprite of exactly the requested size and color count. When the image
+ * has a visible pixel grid it is first reduced to one pixel per cell, so the sprite follows
+ * the cells the model drew instead of cutting through them.
+ */
+export function snapToSprite(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: SpriteSnapOptions
+): PixelatedImage {
+  let source = { rgba, width, height };
+
+  const grid = detectPixelGrid(rgba, width, height);
+  if (grid) {
+    const cropped = cropImage(
+      rgba,
+      width,
+      Math.round(grid.offsetX),
+      Math.round(grid.offsetY),
+      Math.min(width - Math.round(grid.offsetX), Math.round(grid.columns * grid.cellWidth)),
+      Math.min(height - Math.round(grid.offsetY), Math.round(grid.rows * grid.cellHeight))
+    );
+    // One pixel per cell; the median ignores the blurry cell borders
+    source = pixelate(cropped.rgba, cropped.width, cropped.height, {
+      sizingMode: 'target',
+      targetWidth: grid.columns,
+      targetHeight: grid.rows,
+      targetFit: 'stretch',
+      samplingMode: 'median',
+      outputMode: 'native',
+      colorCount: 256,
+      dithering: false
+    });
+  }
+
+  return pixelate(source.rgba, source.width, source.height, {
+    sizingMode: 'target',
+    targetWidth: options.width,
+    targetHeight: options.height,
+    targetFit: 'fill',
+    samplingMode: 'mode',
+    outputMode: 'native',
+    outputScale: 1,
+    colorCount: options.colorCount,
+    algorithm: 'kmeans',
+    dithering: false
+  });
+}
+
+/**
+ * Strongest evenly spaced pattern in a line of edge energies, as a cell size and the
+ * position of the first cell edge
+ */
+function findPeriod(energy: Float64Array): { period: number; phase: number } | null {
+  const length = energy.length;
+  // Edges may wander a pixel either way over many cells, so each position also counts its neighbours
+  const smoothed = new Float64Array(length);
+  let total = 0;
+  for (let i = 1; i < length; i++) {
+    smoothed[i] = energy[i - 1] + energy[i] + (i + 1 < length ? energy[i + 1] : 0);
+    total += smoothed[i];
+  }
+  const average = total / Math.max(1, length - 1);
+  if (average === 0) return null;
+
+  const scores: Array<{ period: number; phase: number; score: number }> = [];
+  // At least eight cells must fit, so the pattern can't be a coincidence
+  for (let period = 2; period <= length / 8; period += PERIOD_STEP) {
+    scores.push({ period, ...scorePeriod(smoothed, average, period) });
+  }
+
+  const bestScore = Math.max(0, ...scores.map(entry => entry.score));
+  if (bestScore < MIN_GRID_CONTRAST) return null;
+  const first = scores.findIndex(entry => entry.score >= bestScore * PERIOD_TOLERANCE);
+
+  // Smoothing spreads each peak over neighbouring sizes and the first one found sits on its
+  // rising edge, so take the middle of the top of that peak
+  const nearby = scores.filter(entry => Math.abs(entry.period - scores[first].period) <= 1);
+  const peakScore = Math.max(...nearby.map(entry => entry.score));
+  const top = nearby.filter(entry => entry.score >= peakScore * 0.999);
+  let winner = top[Math.floor((top.length - 1) / 2)];
+
+  const rounded = Math.round(winner.period);
+  if (rounded >= 2 && Math.abs(rounded - winner.period) <= 0.5) {
+    const whole = scorePeriod(smoothed, average, rounded);
+    if (whole.score >= peakScore * INTEGER_PERIOD_TOLERANCE) {
+      winner = { period: rounded, ...whole };
+    }
+  }
+
+  return {
+    period: Math.round(winner.period * 100) / 100,
+    phase: refinePhase(energy, winner.period, winner.phase)
+  };
+}
+
+/**
+ * Best phase of a cell size and how much stronger its edges are than average
+ */
+function scorePeriod(smoothed: Float64Array, average: number, period: number): { phase: number; score: number } {
+  let best = { phase: 0, score: 0 };
+  for (let phase = 0; phase < period; phase++) {
+    const score = sumAtPeriod(smoothed, period, phase) / average;
+    if (score > best.score) best = { phase, score };
+  }
+  return best;
+}
+
+/**
+ * Smoothing scores the phases next to the real edge the same, so pick among them on the
+ * unsmoothed energies
+ */
+function refinePhase(energy: Float64Array, period: number, phase: number): number {
+  let best = { phase, score: sumAtPeriod(energy, period, phase) };
+  // Phases wrap around the cell, so the one before 0 is the last and the one after the last is 0
+  const cells = Math.floor(period);
+  for (const candidate of [phase - 1, phase + 1]) {
+    const wrapped = candidate < 0 ? candidate + cells : candidate >= cells ? candidate - cells : candidate;
+    const score = sumAtPeriod(energy, period, wrapped);
+    if (score > best.score) best = { phase: wrapped, score };
+  }
+  return best.phase;
+}
+
+/**
+ * Average energy at every cell edge for a cell size and phase
+ */
+function sumAtPeriod(energy: Float64Array, period: number, phase: number): number {
+  let sum = 0;
+  let count = 0;
+  for (let position = phase; position < energy.length; position += period) {
+    const index = Math.round(position);
+    if (index <= 0 || index >= energy.length) continue;
+    sum += energy[index];
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+function colorDifference(rgba: Uint8Array | Uint8ClampedArray, a: number, b: number): number {
+  return Math.abs(rgba[a] - rgba[b]) + Math.abs(rgba[a + 1] - rgba[b + 1]) + Math.abs(rgba[a + 2] - rgba[b + 2]);
+}
+
+function cropImage(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  x: number,
+  y: number,
+  cropWidth: number,
+  cropHeight: number
+): { rgba: Uint8ClampedArray; width: number; height: number } {
+  const output = new Uint8ClampedArray(cropWidth * cropHeight * 4);
+  for (let row = 0; row < cropHeight; row++) {
+    const start = ((y + row) * width + x) * 4;
+    output.set(rgba.subarray(start, start + cropWidth * 4), row * cropWidth * 4);
+  }
+  return { rgba: output, width: cropWidth, height: cropHeight };
+}
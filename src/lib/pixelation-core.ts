@@ -0,0 +1,1087 @@
+import { applyErrorDiffusion, applyOrderedDither, DitheringAlgorithm, OrderedDitherMatrix } from './dithering';
+import { ColorSpace, COLOR_SPACE_RANGES, colorDistanceSquared, colorSpaceToRgb, rgbToColorSpace } from './color-space';
+import { getPalette, hexToRgb, PaletteDefinition, PaletteEntry, rgbToHex } from './palettes';
+import { countLegoParts, LEGO_PALETTE, LegoPartCount, renderLegoMosaic } from './lego';
+import { applyOutline, OutlineConnectivity, OutlinePosition, SilhouetteSource } from './outline';
+import { cleanupGrid } from './cleanup';
+import { applyAdjustments, hasAdjustments } from './adjustments';
+
+export type QuantizationAlgorithm = 'kmeans' | 'median-cut' | 'octree' | 'palette';
+
+// 'upscaled' keeps the source dimensions, 'native' emits one pixel per block
+export type OutputMode = 'upscaled' | 'native';
+
+// 'pixel-size' uses square blocks of pixelSize, 'target' derives the blocks from targetWidth x targetHeight
+export type SizingMode = 'pixel-size' | 'target';
+
+// How the source aspect ratio is matched to the target grid
+export type TargetFit = 'fit' | 'fill' | 'stretch';
+
+// How a block of source pixels is reduced to one color
+export type SamplingMode = 'average' | 'median' | 'mode' | 'center' | 'edge-weighted';
+
+export type CropAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export const SPRITE_SIZE_OPTIONS = [
+  '16x16',
+  '32x32',
+  '64x64',
+  '128x128',
+  '256x256'
+];
+
+export interface PixelationOptions {
+  pixelSize: number;
+  sizingMode?: SizingMode;
+  targetWidth?: number;
+  targetHeight?: number;
+  targetFit?: TargetFit;
+  // Which part of the image is kept when cropping ('fill') or where it is placed when padding ('fit')
+  cropAnchor?: CropAnchor;
+  // Source adjustments applied before sampling, see ImageAdjustments for the ranges
+  brightness?: number;
+  contrast?: number;
+  saturation?: number;
+  gamma?: number;
+  // Degrees around the color wheel
+  hueRotation?: number;
+  sharpen?: number;
+  // Levels per channel; 0 is off
+  posterizeLevels?: number;
+  samplingMode?: SamplingMode;
+  // Blocks below this alpha (0-255) become fully transparent and the rest fully opaque; 0 keeps soft alpha
+  alphaThreshold?: number;
+  // Weight block colors by alpha so transparent pixels don't darken or tint the edges
+  premultipliedAlpha?: boolean;
+  // Leave fully transparent blocks out of palette building and usage counts
+  excludeTransparent?: boolean;
+  // Hex color to flatten the image onto; the output is then fully opaque
+  matteColor?: string;
+  colorCount: number;
+  algorithm: QuantizationAlgorithm;
+  // k-means: upper bound on refinement passes
+  maxIterations?: number;
+  // k-means: stop once no centroid moves more than this fraction of the color space range
+  convergenceThreshold?: number;
+  // k-means: seed for the k-means++ initialization, so equal inputs give equal palettes
+  seed?: number;
+  // Palette used when algorithm is 'palette': a built-in id, or the id of customPalette
+  paletteId?: string;
+  // Palette loaded from a file by the user
+  customPalette?: PaletteDefinition;
+  colorSpace?: ColorSpace;
+  dithering: boolean;
+  ditheringAlgorithm?: DitheringAlgorithm;
+  orderedMatrix?: OrderedDitherMatrix;
+  ditheringStrength?: number;
+  outputMode?: OutputMode;
+  // Integer nearest-neighbour scale applied to native output (1, 2, 4 or 8)
+  outputScale?: number;
+  // Remove orphan pixels, diagonal doubles and small islands after quantization: 0 (off) to 3
+  cleanupStrength?: number;
+  // Draw a one-cell outline around the subject
+  outline?: boolean;
+  // Hex color, or 'auto' for a darkened version of the neighbouring color
+  outlineColor?: string;
+  outlinePosition?: OutlinePosition;
+  outlineConnectivity?: OutlineConnectivity;
+  outlineSource?: SilhouetteSource;
+  // Background color for the 'background' source; defaults to the top-left cell
+  outlineBackgroundKey?: string;
+  // Largest per-channel difference (0-255) from the background key that still counts as background
+  outlineKeyTolerance?: number;
+  // Render the grid as a LEGO mosaic snapped to LEGO_PALETTE
+  legoEffect: boolean;
+  // Size of one rendered LEGO brick in output pixels
+  gridSize?: number;
+}
+
+export type PixelationStage = 'decoding' | 'adjusting' | 'sampling' | 'quantizing' | 'rendering' | 'encoding';
+
+/**
+ * Called with the overall progress (0 to 1) and the stage being worked on
+ */
+export type PixelationProgressCallback = (progress: number, stage: PixelationStage) => void;
+
+/**
+ * Raw RGBA output of the pixelation pipeline
+ */
+export interface PixelatedImage {
+  rgba: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // Final colors of the output, most used first
+  palette: PaletteEntry[];
+  // 1x1 plates needed per LEGO color when legoEffect is on
+  bricks?: LegoPartCount[];
+}
+
+/**
+ * Pixelate raw RGBA pixels (4 bytes per pixel, row by row). This is the whole engine
+ * behind convertToPixelArt and uses no DOM APIs, so it runs in workers and Node as well.
+ * Options that are left out fall back to getDefaultPixelationOptions().
+ */
+export function pixelate(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: Partial<PixelationOptions> = {},
+  onProgress?: PixelationProgressCallback
+): PixelatedImage {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`Invalid image size: ${width}x${height}`);
+  }
+  if (rgba.length !== width * height * 4) {
+    throw new Error(`Expected ${width * height * 4} bytes of RGBA data for ${width}x${height}, got ${rgba.length}`);
+  }
+  const resolved = { ...getDefaultPixelationOptions(), ...options };
+  if (!Number.isInteger(resolved.pixelSize) || resolved.pixelSize <= 0) {
+    throw new Error(`Invalid pixel size: ${resolved.pixelSize} (must be a positive whole number)`);
+  }
+  const data = rgba instanceof Uint8ClampedArray ? rgba : new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.length);
+  return pixelatePixels(data, width, height, resolved, onProgress);
+}
+
+/**
+ * Run the pipeline with fully resolved options
+ */
+function pixelatePixels(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: PixelationOptions,
+  onProgress?: PixelationProgressCallback
+): PixelatedImage {
+  // Tone and color tweaks work on the full-resolution source, before any detail is lost
+  if (hasAdjustments(options)) {
+    onProgress?.(0.02, 'adjusting');
+  }
+  const source = applyAdjustments(data, width, height, options);
+
+  // Average each block down to a single grid cell
+  onProgress?.(0.05, 'sampling');
+  const layout = computeBlockLayout(width, height, options);
+  const blocks = sampleBlocks(source, width, layout, options.samplingMode || 'average', options.premultipliedAlpha ?? true);
+  const matte = options.matteColor ? hexToRgb(options.matteColor) : undefined;
+  resolveAlpha(blocks.data, options.alphaThreshold ?? 0, matte);
+  
+  // LEGO mosaics can only use colors that exist as bricks
+  const quantizeOptions: PixelationOptions = options.legoEffect ?
+    { ...options, algorithm: 'palette', paletteId: LEGO_PALETTE.id, customPalette: LEGO_PALETTE } :
+    options;
+  
+  // Apply color reduction if needed; dithering works on the block grid so blocks stay solid
+  onProgress?.(0.2, 'quantizing');
+  const reduced = quantizeOptions.algorithm === 'palette' || quantizeOptions.colorCount < 256 ? 
+    reduceColors(blocks.data, blocks.width, blocks.height, quantizeOptions) : 
+    { data: blocks.data, palette: undefined };
+  const cleaned = cleanupGrid(reduced.data, blocks.width, blocks.height, options.cleanupStrength ?? 0);
+
+  // Letterbox the grid when it has to fit inside the target size. LEGO padding is a brick
+  // color as well, so the mosaic and the parts list stay within LEGO_PALETTE.
+  onProgress?.(0.8, 'rendering');
+  const padding = matte && options.legoEffect ?
+    createColorMatcher(LEGO_PALETTE.colors.map(hexToRgb), options.colorSpace || 'srgb')(matte[0], matte[1], matte[2]) :
+    matte;
+  let grid = placeGrid(cleaned, layout, padding);
+  
+  if (options.outline) {
+    // Darkened outline colors are snapped back onto the reduced palette, so the output keeps
+    // the requested color count (and fixed palettes stay closed)
+    const matchColor = reduced.palette ?
+      createColorMatcher(reduced.palette, quantizeOptions.colorSpace || 'srgb') :
+      undefined;
+    grid = applyOutline(grid, layout.outputWidth, layout.outputHeight, {
+      color: options.outlineColor || 'auto',
+      position: options.outlinePosition || 'outer',
+      connectivity: options.outlineConnectivity || 8,
+      source: options.outlineSource || 'alpha',
+      backgroundKey: options.outlineBackgroundKey,
+      keyTolerance: options.outlineKeyTolerance ?? 24
+    }, matchColor);
+  }
+  
+  const palette = countPaletteUsage(grid, reduced.palette, options.excludeTransparent ?? true);
+  const bricks = options.legoEffect ? countLegoParts(grid) : undefined;
+
+  // Scale the grid up: back to the source size, or by an integer factor for native output
+  if (options.legoEffect) {
+    const mosaic = renderLegoMosaic(grid, layout.outputWidth, layout.outputHeight, options.gridSize || options.pixelSize);
+    return { rgba: mosaic.data, width: mosaic.width, height: mosaic.height, palette, bricks };
+  }
+  if (options.outputMode === 'native' || layout.mode === 'target') {
+    // Target grids may use non-square blocks, so their blocky preview uses the
+    // nearest integer scale instead of the exact source size
+    const scale = options.outputMode === 'native' ?
+      Math.max(1, Math.round(options.outputScale || 1)) :
+      Math.max(1, Math.round(Math.min(layout.blockWidth, layout.blockHeight)));
+    const outputWidth = layout.outputWidth * scale;
+    const outputHeight = layout.outputHeight * scale;
+    return {
+      rgba: expandBlocks(grid, layout.outputWidth, layout.outputHeight, outputWidth, outputHeight, scale),
+      width: outputWidth,
+      height: outputHeight,
+      palette
+    };
+  }
+  return {
+    rgba: expandBlocks(grid, layout.outputWidth, layout.outputHeight, width, height, options.pixelSize),
+    width,
+    height,
+    palette
+  };
+}
+
+/**
+ * Describes how the source image is divided into blocks
+ */
+interface BlockLayout {
+  mode: SizingMode;
+  // Source region that gets sampled
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Size of one block in source pixels; fractional for target sizes
+  blockWidth: number;
+  blockHeight: number;
+  // Number of sampled blocks
+  gridWidth: number;
+  gridHeight: number;
+  // Final grid size and where the sampled blocks sit in it (only differs for 'fit')
+  outputWidth: number;
+  outputHeight: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Work out the sampled region and block size for the chosen sizing mode
+ */
+function computeBlockLayout(width: number, height: number, options: PixelationOptions): BlockLayout {
+  if (options.sizingMode !== 'target') {
+    const gridWidth = Math.ceil(width / options.pixelSize);
+    const gridHeight = Math.ceil(height / options.pixelSize);
+    return {
+      mode: 'pixel-size',
+      x: 0, y: 0, width, height,
+      blockWidth: options.pixelSize,
+      blockHeight: options.pixelSize,
+      gridWidth, gridHeight,
+      outputWidth: gridWidth,
+      outputHeight: gridHeight,
+      offsetX: 0,
+      offsetY: 0
+    };
+  }
+  
+  const targetWidth = Math.max(1, Math.round(options.targetWidth || 32));
+  const targetHeight = Math.max(1, Math.round(options.targetHeight || 32));
+  const [anchorX, anchorY] = getAnchorFactors(options.cropAnchor || 'center');
+  const layout: BlockLayout = {
+    mode: 'target',
+    x: 0, y: 0, width, height,
+    blockWidth: width / targetWidth,
+    blockHeight: height / targetHeight,
+    gridWidth: targetWidth,
+    gridHeight: targetHeight,
+    outputWidth: targetWidth,
+    outputHeight: targetHeight,
+    offsetX: 0,
+    offsetY: 0
+  };
+  
+  switch (options.targetFit || 'fill') {
+    case 'fill': {
+      // Crop the source to the target aspect ratio, keeping the anchored side
+      const targetAspect = targetWidth / targetHeight;
+      if (width / height > targetAspect) {
+        layout.width = height * targetAspect;
+        layout.x = (width - layout.width) * anchorX;
+      } else {
+        layout.height = width / targetAspect;
+        layout.y = (height - layout.height) * anchorY;
+      }
+      layout.blockWidth = layout.width / targetWidth;
+      layout.blockHeight = layout.height / targetHeight;
+      break;
+    }
+    case 'fit': {
+      // Shrink the whole image into the target and pad the rest with transparency
+      const blockSize = Math.max(width / targetWidth, height / targetHeight);
+      layout.blockWidth = blockSize;
+      layout.blockHeight = blockSize;
+      layout.gridWidth = Math.max(1, Math.min(targetWidth, Math.round(width / blockSize)));
+      layout.gridHeight = Math.max(1, Math.min(targetHeight, Math.round(height / blockSize)));
+      layout.offsetX = Math.round((targetWidth - layout.gridWidth) * anchorX);
+      layout.offsetY = Math.round((targetHeight - layout.gridHeight) * anchorY);
+      break;
+    }
+    case 'stretch':
+      break;
+  }
+  
+  return layout;
+}
+
+function getAnchorFactors(anchor: CropAnchor): [number, number] {
+  const x = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5;
+  const y = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+  return [x, y];
+}
+
+/**
+ * Reduce every block of the layout to one pixel of a smaller grid. With premultiplied
+ * alpha each pixel's color counts in proportion to its opacity when averaging.
+ */
+function sampleBlocks(
+  data: Uint8ClampedArray,
+  width: number,
+  layout: BlockLayout,
+  mode: SamplingMode,
+  premultiplied: boolean
+): { data: Uint8ClampedArray; width: number; height: number } {
+  const { gridWidth, gridHeight } = layout;
+  const gridData = new Uint8ClampedArray(gridWidth * gridHeight * 4);
+  const regionRight = Math.round(layout.x + layout.width);
+  const regionBottom = Math.round(layout.y + layout.height);
+  // Indices of the visible pixels of the current block, reused between blocks
+  const visible: number[] = [];
+  
+  for (let gy = 0; gy < gridHeight; gy++) {
+    // Block edges are rounded so fractional block sizes still tile the region without gaps
+    const y = Math.floor(layout.y + gy * layout.blockHeight);
+    const blockBottom = Math.min(regionBottom, Math.max(y + 1, Math.floor(layout.y + (gy + 1) * layout.blockHeight)));
+    
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const x = Math.floor(layout.x + gx * layout.blockWidth);
+      const blockRight = Math.min(regionRight, Math.max(x + 1, Math.floor(layout.x + (gx + 1) * layout.blockWidth)));
+      const gridIndex = (gy * gridWidth + gx) * 4;
+      
+      if (mode === 'center') {
+        const centerIndex = (Math.floor((y + blockBottom - 1) / 2) * width + Math.floor((x + blockRight - 1) / 2)) * 4;
+        gridData.set(data.subarray(centerIndex, centerIndex + 4), gridIndex);
+        continue;
+      }
+      
+      let r = 0, g = 0, b = 0, a = 0;
+      let colorWeight = 0;
+      let pixelCount = 0;
+      visible.length = 0;
+      
+      for (let py = y; py < blockBottom; py++) {
+        for (let px = x; px < blockRight; px++) {
+          const pixelIndex = (py * width + px) * 4;
+          const weight = premultiplied ? data[pixelIndex + 3] : 1;
+          r += data[pixelIndex] * weight;
+          g += data[pixelIndex + 1] * weight;
+          b += data[pixelIndex + 2] * weight;
+          a += data[pixelIndex + 3];
+          colorWeight += weight;
+          pixelCount++;
+          if (data[pixelIndex + 3] > 0) visible.push(pixelIndex);
+        }
+      }
+      if (pixelCount === 0) continue;
+      
+      // Alpha is always the block's coverage, whichever pixel decides the color
+      gridData[gridIndex + 3] = Math.round(a / pixelCount);
+      
+      let color: number[] | undefined;
+      if (mode === 'average' || visible.length === 0) {
+        color = colorWeight > 0 ? [r / colorWeight, g / colorWeight, b / colorWeight] : undefined;
+      } else if (mode === 'median') {
+        color = medianColor(data, visible);
+      } else if (mode === 'mode') {
+        color = dominantColor(data, visible);
+      } else {
+        color = contrastWeightedColor(data, visible);
+      }
+      
+      if (color) {
+        gridData[gridIndex] = Math.round(color[0]);
+        gridData[gridIndex + 1] = Math.round(color[1]);
+        gridData[gridIndex + 2] = Math.round(color[2]);
+      }
+    }
+  }
+  
+  return { data: gridData, width: gridWidth, height: gridHeight };
+}
+
+/**
+ * Per-channel median of the given pixels
+ */
+function medianColor(data: Uint8ClampedArray, pixels: number[]): number[] {
+  return [0, 1, 2].map(channel => {
+    const values = pixels.map(index => data[index + channel]).sort((a, b) => a - b);
+    const middle = values.length >> 1;
+    return values.length % 2 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+  });
+}
+
+/**
+ * Most frequent color of the given pixels. Colors are bucketed at 5 bits per channel so
+ * near-identical shades count together, and the winning bucket's pixels are averaged.
+ */
+function dominantColor(data: Uint8ClampedArray, pixels: number[]): number[] {
+  const buckets = new Map<number, number[]>();
+  let best: number[] = [0, 0, 0, 0];
+  
+  for (const index of pixels) {
+    const key = ((data[index] >> 3) << 10) | ((data[index + 1] >> 3) << 5) | (data[index + 2] >> 3);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = [0, 0, 0, 0];
+      buckets.set(key, bucket);
+    }
+    bucket[0] += data[index];
+    bucket[1] += data[index + 1];
+    bucket[2] += data[index + 2];
+    bucket[3]++;
+    if (bucket[3] > best[3]) best = bucket;
+  }
+  
+  return [best[0] / best[3], best[1] / best[3], best[2] / best[3]];
+}
+
+/**
+ * Weighted average that favours pixels whose brightness stands out from the block,
+ * so thin dark outlines and highlights survive instead of blending into their surroundings
+ */
+function contrastWeightedColor(data: Uint8ClampedArray, pixels: number[]): number[] {
+  const luminance = pixels.map(index => 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2]);
+  const meanLuminance = luminance.reduce((sum, value) => sum + value, 0) / luminance.length;
+  
+  const sum = [0, 0, 0];
+  let totalWeight = 0;
+  pixels.forEach((index, i) => {
+    const contrast = (luminance[i] - meanLuminance) / 16;
+    const weight = 1 + contrast * contrast;
+    sum[0] += data[index] * weight;
+    sum[1] += data[index + 1] * weight;
+    sum[2] += data[index + 2] * weight;
+    totalWeight += weight;
+  });
+  
+  return sum.map(value => value / totalWeight);
+}
+
+/**
+ * Flatten blocks onto the matte color, or snap their alpha to fully transparent
+ * or fully opaque at the threshold. Works in place.
+ */
+function resolveAlpha(data: Uint8ClampedArray, threshold: number, matte?: number[]): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    if (matte) {
+      const opacity = alpha / 255;
+      data[i] = data[i] * opacity + matte[0] * (1 - opacity);
+      data[i + 1] = data[i + 1] * opacity + matte[1] * (1 - opacity);
+      data[i + 2] = data[i + 2] * opacity + matte[2] * (1 - opacity);
+      data[i + 3] = 255;
+    } else if (threshold > 0) {
+      if (alpha < threshold) {
+        data.fill(0, i, i + 4);
+      } else {
+        data[i + 3] = 255;
+      }
+    }
+  }
+}
+
+/**
+ * Copy the sampled grid into the output grid, filling the padding with the matte
+ * color or leaving it transparent
+ */
+function placeGrid(gridData: Uint8ClampedArray, layout: BlockLayout, matte?: number[]): Uint8ClampedArray {
+  if (layout.outputWidth === layout.gridWidth && layout.outputHeight === layout.gridHeight) {
+    return gridData;
+  }
+  
+  const output = new Uint8ClampedArray(layout.outputWidth * layout.outputHeight * 4);
+  if (matte) {
+    for (let i = 0; i < output.length; i += 4) {
+      output.set([matte[0], matte[1], matte[2], 255], i);
+    }
+  }
+  for (let gy = 0; gy < layout.gridHeight; gy++) {
+    const sourceStart = gy * layout.gridWidth * 4;
+    const targetStart = ((gy + layout.offsetY) * layout.outputWidth + layout.offsetX) * 4;
+    output.set(gridData.subarray(sourceStart, sourceStart + layout.gridWidth * 4), targetStart);
+  }
+  return output;
+}
+
+/**
+ * Scale a block grid back up so every grid cell fills its pixelSize x pixelSize block
+ */
+function expandBlocks(
+  gridData: Uint8ClampedArray,
+  gridWidth: number,
+  gridHeight: number,
+  width: number,
+  height: number,
+  pixelSize: number
+): Uint8ClampedArray {
+  const newData = new Uint8ClampedArray(width * height * 4);
+  
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(Math.floor(y / pixelSize), gridHeight - 1);
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(Math.floor(x / pixelSize), gridWidth - 1);
+      const gridIndex = (gy * gridWidth + gx) * 4;
+      const pixelIndex = (y * width + x) * 4;
+      newData[pixelIndex] = gridData[gridIndex];
+      newData[pixelIndex + 1] = gridData[gridIndex + 1];
+      newData[pixelIndex + 2] = gridData[gridIndex + 2];
+      newData[pixelIndex + 3] = gridData[gridIndex + 3];
+    }
+  }
+  
+  return newData;
+}
+
+/**
+ * A distinct source color, expressed in the working color space, and how many pixels use it
+ */
+interface ColorSample {
+  color: number[];
+  count: number;
+}
+
+/**
+ * Reduce colors by building a palette with the chosen algorithm and mapping every pixel onto it
+ */
+function reduceColors(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: PixelationOptions
+): { data: Uint8ClampedArray; palette: number[][] } {
+  const colorSpace = options.colorSpace || 'srgb';
+  const palette = options.algorithm === 'palette' ?
+    resolveFixedPalette(options) :
+    buildPalette(
+      collectColorSamples(data, colorSpace, options.excludeTransparent ?? true),
+      options.colorCount,
+      options.algorithm,
+      colorSpace,
+      options
+    );
+  return {
+    data: mapToPalette(data, width, height, palette, colorSpace, options),
+    palette
+  };
+}
+
+/**
+ * Count how many pixels use each color. With a palette, every palette color is
+ * listed (unused ones with a count of 0); otherwise the distinct colors are used.
+ */
+function countPaletteUsage(data: Uint8ClampedArray, palette: number[][] | undefined, excludeTransparent: boolean): PaletteEntry[] {
+  const counts = new Map<string, number>();
+  for (const color of palette || []) {
+    counts.set(rgbToHex(color), 0);
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    if (excludeTransparent && data[i + 3] === 0) continue;
+    const color = rgbToHex([data[i], data[i + 1], data[i + 2]]);
+    counts.set(color, (counts.get(color) || 0) + 1);
+  }
+  
+  return Array.from(counts, ([color, count]) => ({ color, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Get the sRGB colors of the fixed palette selected in the options
+ */
+function resolveFixedPalette(options: PixelationOptions): number[][] {
+  const paletteId = options.paletteId || 'pico-8';
+  const palette = options.customPalette?.id === paletteId ? options.customPalette : getPalette(paletteId);
+  if (!palette) {
+    throw new Error(`Unknown palette: ${paletteId}`);
+  }
+  if (palette.colors.length === 0) {
+    throw new Error(`Palette "${palette.name}" has no colors`);
+  }
+  return palette.colors.map(hexToRgb);
+}
+
+/**
+ * Collect the distinct colors in the data with their pixel counts
+ */
+function collectColorSamples(data: Uint8ClampedArray, colorSpace: ColorSpace, excludeTransparent: boolean): ColorSample[] {
+  const counts = new Map<number, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (excludeTransparent && data[i + 3] === 0) continue;
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  
+  return Array.from(counts, ([key, count]) => ({
+    color: rgbToColorSpace((key >> 16) & 255, (key >> 8) & 255, key & 255, colorSpace),
+    count
+  }));
+}
+
+/**
+ * Build a palette of at most colorCount colors, returned as sRGB
+ */
+function buildPalette(
+  samples: ColorSample[],
+  colorCount: number,
+  algorithm: Exclude<QuantizationAlgorithm, 'palette'>,
+  colorSpace: ColorSpace,
+  options: PixelationOptions
+): number[][] {
+  let palette: number[][];
+  switch (algorithm) {
+    case 'kmeans':
+      palette = reduceColorsKMeans(samples, colorCount, colorSpace, options);
+      break;
+    case 'median-cut':
+      palette = reduceColorsMedianCut(samples, colorCount);
+      break;
+    case 'octree':
+      palette = reduceColorsOctree(samples, colorCount, colorSpace);
+      break;
+    default:
+      // Fallback to simple quantization
+      palette = reduceColorsSimple(samples, colorCount, colorSpace);
+  }
+  return palette.map(color => colorSpaceToRgb(color, colorSpace));
+}
+
+/**
+ * Map pixels to their nearest palette color, diffusing the error when dithering is enabled
+ */
+function mapToPalette(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: number[][],
+  colorSpace: ColorSpace,
+  options: PixelationOptions
+): Uint8ClampedArray {
+  const findClosest = createColorMatcher(palette, colorSpace);
+  
+  if (options.dithering) {
+    const algorithm = options.ditheringAlgorithm || 'floyd-steinberg';
+    const strength = options.ditheringStrength ?? 1;
+    
+    if (algorithm === 'ordered') {
+      // Approximate the spacing between palette colors as if they were spread evenly over the RGB cube
+      const spread = 255 / Math.max(1, Math.cbrt(palette.length) - 1);
+      return applyOrderedDither(data, width, height, options.orderedMatrix || 'bayer-4x4', strength, spread, findClosest);
+    }
+    
+    return applyErrorDiffusion(data, width, height, algorithm, strength, findClosest);
+  }
+  
+  const newData = new Uint8ClampedArray(data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const closestColor = findClosest(data[i], data[i + 1], data[i + 2]);
+    newData[i] = closestColor[0];
+    newData[i + 1] = closestColor[1];
+    newData[i + 2] = closestColor[2];
+  }
+  
+  return newData;
+}
+
+/**
+ * Create a lookup that returns the sRGB palette color nearest to a given sRGB color,
+ * measuring distance in the working color space
+ */
+function createColorMatcher(
+  palette: number[][],
+  colorSpace: ColorSpace
+): (r: number, g: number, b: number) => number[] {
+  const convertedPalette = palette.map(color => rgbToColorSpace(color[0], color[1], color[2], colorSpace));
+  const cache = new Map<number, number[]>();
+  
+  return (r, g, b) => {
+    const key = (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b);
+    let closest = cache.get(key);
+    if (!closest) {
+      closest = palette[findClosestIndex(rgbToColorSpace(r, g, b, colorSpace), convertedPalette)];
+      cache.set(key, closest);
+    }
+    return closest;
+  };
+}
+
+/**
+ * Find the index of the palette color nearest to the given color (both in the same space)
+ */
+function findClosestIndex(color: number[], palette: number[][]): number {
+  let minDist = Infinity;
+  let closestIndex = 0;
+  
+  for (let i = 0; i < palette.length; i++) {
+    const dist = colorDistanceSquared(color, palette[i]);
+    if (dist < minDist) {
+      minDist = dist;
+      closestIndex = i;
+    }
+  }
+  
+  return closestIndex;
+}
+
+/**
+ * Simple quantization - group similar colors
+ */
+function reduceColorsSimple(samples: ColorSample[], colorCount: number, colorSpace: ColorSpace): number[][] {
+  const step = Math.floor(256 / Math.sqrt(colorCount));
+  const colors = new Map<string, number[]>();
+  
+  for (const sample of samples) {
+    const snapped = colorSpaceToRgb(sample.color, colorSpace).map(value => Math.floor(value / step) * step);
+    colors.set(snapped.join(','), rgbToColorSpace(snapped[0], snapped[1], snapped[2], colorSpace));
+  }
+  
+  return Array.from(colors.values());
+}
+
+/**
+ * K-means clustering for color reduction, weighted by pixel count and seeded with k-means++
+ */
+function reduceColorsKMeans(
+  samples: ColorSample[],
+  colorCount: number,
+  colorSpace: ColorSpace,
+  options: PixelationOptions
+): number[][] {
+  const centroids = seedKMeansPlusPlus(samples, colorCount, createRandom(options.seed ?? 0));
+  const maxIterations = Math.max(1, Math.round(options.maxIterations ?? 20));
+  
+  // Compare movement per component relative to its range, so one threshold suits every color space
+  const ranges = COLOR_SPACE_RANGES[colorSpace].map(([min, max]) => max - min);
+  const threshold = options.convergenceThreshold ?? 0.001;
+  
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    
+    // Assign colors to nearest centroid
+    for (const sample of samples) {
+      const sum = sums[findClosestIndex(sample.color, centroids)];
+      sum[0] += sample.color[0] * sample.count;
+      sum[1] += sample.color[1] * sample.count;
+      sum[2] += sample.color[2] * sample.count;
+      sum[3] += sample.count;
+    }
+    
+    // Move centroids to the weighted mean of their cluster; empty clusters stay put
+    let maxShift = 0;
+    for (let i = 0; i < centroids.length; i++) {
+      const [r, g, b, count] = sums[i];
+      if (count === 0) continue;
+      const next = [r / count, g / count, b / count];
+      for (let c = 0; c < 3; c++) {
+        maxShift = Math.max(maxShift, Math.abs(next[c] - centroids[i][c]) / ranges[c]);
+      }
+      centroids[i] = next;
+    }
+    
+    if (maxShift <= threshold) break;
+  }
+  
+  return centroids;
+}
+
+/**
+ * Pick initial centroids with k-means++: each new centroid is drawn with probability
+ * proportional to its pixel count times its squared distance to the nearest centroid so far
+ */
+function seedKMeansPlusPlus(samples: ColorSample[], colorCount: number, random: () => number): number[][] {
+  const centroids: number[][] = [];
+  if (samples.length === 0) return centroids;
+  
+  const pickWeighted = (weights: number[], total: number) => {
+    let target = random() * total;
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i];
+      if (target < 0) return i;
+    }
+    return weights.length - 1;
+  };
+  
+  const counts = samples.map(sample => sample.count);
+  centroids.push([...samples[pickWeighted(counts, counts.reduce((sum, count) => sum + count, 0))].color]);
+  
+  const distances = samples.map(sample => colorDistanceSquared(sample.color, centroids[0]));
+  while (centroids.length < colorCount) {
+    const weights = samples.map((sample, i) => sample.count * distances[i]);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    // Every color already coincides with a centroid
+    if (total === 0) break;
+    
+    const centroid = [...samples[pickWeighted(weights, total)].color];
+    centroids.push(centroid);
+    for (let i = 0; i < samples.length; i++) {
+      distances[i] = Math.min(distances[i], colorDistanceSquared(samples[i].color, centroid));
+    }
+  }
+  
+  return centroids;
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) from a 32-bit LCG
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * A median cut box: its samples, pixel count, weighted mean and summed squared error
+ */
+interface MedianCutBox {
+  samples: ColorSample[];
+  count: number;
+  mean: number[];
+  // Population-weighted squared error summed over the channels
+  error: number;
+  // Channel with the largest weighted variance
+  splitChannel: number;
+}
+
+/**
+ * Weighted median cut: repeatedly split the box with the largest population-weighted
+ * variance at the pixel-count median of its widest channel, then average each box by count
+ */
+function reduceColorsMedianCut(samples: ColorSample[], colorCount: number): number[][] {
+  if (samples.length === 0) return [];
+  const boxes = [createMedianCutBox(samples)];
+  
+  while (boxes.length < colorCount) {
+    // Find the box whose colors are spread the most, counting every pixel
+    let boxIndex = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].samples.length > 1 && boxes[i].error > 0 &&
+          (boxIndex === -1 || boxes[i].error > boxes[boxIndex].error)) {
+        boxIndex = i;
+      }
+    }
+    if (boxIndex === -1) break;
+    
+    // Split at the weighted median so both halves hold about the same number of pixels
+    const box = boxes[boxIndex];
+    const channel = box.splitChannel;
+    const sorted = [...box.samples].sort((a, b) => a.color[channel] - b.color[channel]);
+    let splitIndex = 1;
+    let running = sorted[0].count;
+    while (splitIndex < sorted.length - 1 && running + sorted[splitIndex].count <= box.count / 2) {
+      running += sorted[splitIndex].count;
+      splitIndex++;
+    }
+    
+    boxes[boxIndex] = createMedianCutBox(sorted.slice(0, splitIndex));
+    boxes.push(createMedianCutBox(sorted.slice(splitIndex)));
+  }
+  
+  return boxes.map(box => box.mean);
+}
+
+/**
+ * Gather the weighted statistics of a set of samples
+ */
+function createMedianCutBox(samples: ColorSample[]): MedianCutBox {
+  let count = 0;
+  const sums = [0, 0, 0];
+  const squares = [0, 0, 0];
+  for (const sample of samples) {
+    count += sample.count;
+    for (let c = 0; c < 3; c++) {
+      sums[c] += sample.color[c] * sample.count;
+      squares[c] += sample.color[c] * sample.color[c] * sample.count;
+    }
+  }
+  
+  const mean = sums.map(sum => sum / count);
+  const channelErrors = squares.map((square, c) => Math.max(0, square - sums[c] * mean[c]));
+  const splitChannel = channelErrors.indexOf(Math.max(...channelErrors));
+  return {
+    samples,
+    count,
+    mean,
+    error: channelErrors[0] + channelErrors[1] + channelErrors[2],
+    splitChannel
+  };
+}
+
+interface OctreeNode {
+  // Accumulated color of samples merged into this node
+  sum: number[];
+  count: number;
+  children: Array<OctreeNode | null>;
+  childCount: number;
+}
+
+const OCTREE_MAX_DEPTH = 8;
+
+/**
+ * Octree algorithm for color reduction
+ *
+ * Every color is inserted into an 8-level tree indexed by the bits of its
+ * components (rescaled to 0-255 in the working color space), then the least
+ * populated branches at the deepest level are merged into their parents until
+ * exactly colorCount colors remain.
+ */
+function reduceColorsOctree(samples: ColorSample[], colorCount: number, colorSpace: ColorSpace): number[][] {
+  const createNode = (): OctreeNode => ({
+    sum: [0, 0, 0],
+    count: 0,
+    children: new Array(8).fill(null),
+    childCount: 0
+  });
+  
+  const ranges = COLOR_SPACE_RANGES[colorSpace];
+  const toByte = (value: number, channel: number) => {
+    const [min, max] = ranges[channel];
+    return Math.max(0, Math.min(255, Math.round(((value - min) / (max - min)) * 255)));
+  };
+  
+  const root = createNode();
+  // Nodes that still have children, grouped by depth
+  const reducibleNodes: Set<OctreeNode>[] = Array.from({ length: OCTREE_MAX_DEPTH }, () => new Set());
+  let colorTotal = 0;
+  
+  // Build the tree; every sample adds its pixel count to its leaf
+  for (const { color, count } of samples) {
+    const r = toByte(color[0], 0);
+    const g = toByte(color[1], 1);
+    const b = toByte(color[2], 2);
+    let node = root;
+    
+    for (let level = 0; level < OCTREE_MAX_DEPTH; level++) {
+      const shift = 7 - level;
+      const index = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      
+      let child = node.children[index];
+      if (!child) {
+        child = createNode();
+        node.children[index] = child;
+        node.childCount++;
+        reducibleNodes[level].add(node);
+      }
+      node = child;
+    }
+    
+    if (node.count === 0) colorTotal++;
+    node.sum[0] += color[0] * count;
+    node.sum[1] += color[1] * count;
+    node.sum[2] += color[2] * count;
+    node.count += count;
+  }
+  
+  const subtreeCount = (node: OctreeNode): number =>
+    node.children.reduce((sum, child) => sum + (child ? subtreeCount(child) : 0), node.count);
+  
+  // Merge deepest branches first so every merged child is already a leaf
+  for (let level = OCTREE_MAX_DEPTH - 1; level >= 0 && colorTotal > colorCount; level--) {
+    const candidates = Array.from(reducibleNodes[level])
+      .map(node => ({ node, population: subtreeCount(node) }))
+      .sort((a, b) => a.population - b.population);
+    
+    for (const { node } of candidates) {
+      if (colorTotal <= colorCount) break;
+      
+      const leaves = node.children
+        .map((child, index) => ({ child, index }))
+        .filter((entry): entry is { child: OctreeNode; index: number } => entry.child !== null)
+        .sort((a, b) => a.child.count - b.child.count);
+      
+      // Merging k children removes k colors, plus one gained if the parent had no color yet
+      const parentGain = node.count === 0 ? 1 : 0;
+      const excess = colorTotal - colorCount;
+      const mergeCount = Math.min(leaves.length, excess + parentGain);
+      
+      for (const { child, index } of leaves.slice(0, mergeCount)) {
+        node.sum[0] += child.sum[0];
+        node.sum[1] += child.sum[1];
+        node.sum[2] += child.sum[2];
+        node.count += child.count;
+        node.children[index] = null;
+        node.childCount--;
+      }
+      
+      colorTotal -= mergeCount - parentGain;
+      if (node.childCount === 0) {
+        reducibleNodes[level].delete(node);
+      }
+    }
+  }
+  
+  // Every node holding merged samples contributes one palette color
+  const palette: number[][] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.count > 0) {
+      palette.push(node.sum.map(value => value / node.count));
+    }
+    for (const child of node.children) {
+      if (child) collect(child);
+    }
+  };
+  collect(root);
+  
+  return palette;
+}
+
+/**
+ * Get default pixelation options
+ */
+export function getDefaultPixelationOptions(): PixelationOptions {
+  return {
+    pixelSize: 8,
+    sizingMode: 'pixel-size',
+    targetWidth: 32,
+    targetHeight: 32,
+    targetFit: 'fill',
+    cropAnchor: 'center',
+    brightness: 0,
+    contrast: 0,
+    saturation: 0,
+    gamma: 1,
+    hueRotation: 0,
+    sharpen: 0,
+    posterizeLevels: 0,
+    samplingMode: 'average',
+    alphaThreshold: 0,
+    premultipliedAlpha: true,
+    excludeTransparent: true,
+    colorCount: 16,
+    algorithm: 'kmeans',
+    maxIterations: 20,
+    convergenceThreshold: 0.001,
+    seed: 0,
+    colorSpace: 'srgb',
+    paletteId: 'pico-8',
+    dithering: true,
+    ditheringAlgorithm: 'floyd-steinberg',
+    orderedMatrix: 'bayer-4x4',
+    ditheringStrength: 1,
+    outputMode: 'upscaled',
+    outputScale: 1,
+    cleanupStrength: 0,
+    outline: false,
+    outlineColor: 'auto',
+    outlinePosition: 'outer',
+    outlineConnectivity: 8,
+    outlineSource: 'alpha',
+    outlineKeyTolerance: 24,
+    legoEffect: false,
+    gridSize: 8
+  };
+}
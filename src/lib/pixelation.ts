@@ -1,478 +1,248 @@
-export interface PixelationOptions {
-  pixelSize: number;
-  colorCount: number;
-  algorithm: 'kmeans' | 'median-cut' | 'octree';
-  dithering: boolean;
-  legoEffect: boolean;
-  gridSize?: number;
-}
+import {
+  getDefaultPixelationOptions,
+  pixelate,
+  PixelationOptions,
+  PixelationProgressCallback
+} from './pixelation-core';
+import { PaletteDefinition, PaletteEntry } from './palettes';
+import { LegoPartCount } from './lego';
+import type { PixelationWorkerRequest, PixelationWorkerResponse } from './pixelation.worker';
+
+export {
+  getDefaultPixelationOptions,
+  pixelate,
+  SPRITE_SIZE_OPTIONS
+} from './pixelation-core';
+export type {
+  CropAnchor,
+  OutputMode,
+  PixelatedImage,
+  PixelationOptions,
+  PixelationProgressCallback,
+  PixelationStage,
+  QuantizationAlgorithm,
+  SamplingMode,
+  SizingMode,
+  TargetFit
+} from './pixelation-core';
 
 export interface PixelationResult {
   success: boolean;
   imageData?: string;
+  width?: number;
+  height?: number;
+  // Final colors of the output, most used first
+  palette?: PaletteEntry[];
+  // 1x1 plates needed per LEGO color when legoEffect is on
+  bricks?: LegoPartCount[];
+  // Palette read by loadPaletteFile, for PixelationOptions.customPalette
+  customPalette?: PaletteDefinition;
+  // Set when the run was stopped through its AbortSignal
+  cancelled?: boolean;
+  // Palette parse errors start with their location, e.g. 'Line 4: ...'
   error?: string;
 }
 
+export interface PixelationRunOptions {
+  onProgress?: PixelationProgressCallback;
+  signal?: AbortSignal;
+}
+
+const CANCELLED_RESULT: PixelationResult = {
+  success: false,
+  cancelled: true,
+  error: 'Pixelation cancelled'
+};
+
 /**
- * Convert an image to pixel art using Canvas API
+ * Convert an image to pixel art. Runs in a Web Worker when the browser supports
+ * OffscreenCanvas so large images don't block the page, otherwise on the main thread.
  */
 export async function convertToPixelArt(
   imageFile: File,
-  options: PixelationOptions
+  options: PixelationOptions,
+  runOptions: PixelationRunOptions = {}
 ): Promise<PixelationResult> {
-  try {
-    const imageUrl = URL.createObjectURL(imageFile);
-    const img = new Image();
-    
-    return new Promise((resolve) => {
-      img.onload = () => {
-        try {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            URL.revokeObjectURL(imageUrl);
-            resolve({
-              success: false,
-              error: 'Could not get canvas context'
-            });
-            return;
-          }
-
-          // Set canvas size
-          canvas.width = img.width;
-          canvas.height = img.height;
-
-          // Draw original image
-          ctx.drawImage(img, 0, 0);
-
-          // Get image data
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-
-          // Apply pixelation
-          const pixelatedData = pixelateImageData(data, canvas.width, canvas.height, options);
-          
-          // Apply color reduction if needed
-          const reducedData = options.colorCount < 256 ? 
-            reduceColors(pixelatedData, options.colorCount, options.algorithm) : 
-            pixelatedData;
-
-          // Create new image data
-          const newImageData = new ImageData(new Uint8ClampedArray(reducedData), canvas.width, canvas.height);
-          ctx.putImageData(newImageData, 0, 0);
-
-          // Convert to data URL
-          const result = canvas.toDataURL('image/png');
-          
-          URL.revokeObjectURL(imageUrl);
-          resolve({
-            success: true,
-            imageData: result
-          });
-        } catch (error) {
-          URL.revokeObjectURL(imageUrl);
-          resolve({
-            success: false,
-            error: error instanceof Error ? error.message : 'Failed to pixelate image'
-          });
-        }
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(imageUrl);
-        resolve({
-          success: false,
-          error: 'Failed to load image'
-        });
-      };
-      
-      img.src = imageUrl;
-    });
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to pixelate image'
-    };
+  if (runOptions.signal?.aborted) {
+    return CANCELLED_RESULT;
   }
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    return convertInWorker(imageFile, options, runOptions);
+  }
+  return convertOnMainThread(imageFile, options, runOptions);
 }
 
 /**
- * Apply pixelation effect using Canvas API
+ * Run the pipeline in a dedicated worker; aborting terminates the worker immediately
  */
-export async function applyPixelationEffect(
+async function convertInWorker(
   imageFile: File,
-  pixelSize: number,
-  legoEffect: boolean = false,
-  gridSize?: number
+  options: PixelationOptions,
+  { onProgress, signal }: PixelationRunOptions
 ): Promise<PixelationResult> {
+  let bitmap: ImageBitmap;
   try {
-    const imageUrl = URL.createObjectURL(imageFile);
-    const img = new Image();
-    
-    return new Promise((resolve) => {
-      img.onload = () => {
-        try {
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            URL.revokeObjectURL(imageUrl);
-            resolve({
-              success: false,
-              error: 'Could not get canvas context'
-            });
-            return;
-          }
-
-          // Set canvas size
-          canvas.width = img.width;
-          canvas.height = img.height;
-
-          // Draw original image
-          ctx.drawImage(img, 0, 0);
+    onProgress?.(0, 'decoding');
+    bitmap = await createImageBitmap(imageFile);
+  } catch {
+    return { success: false, error: 'Failed to load image' };
+  }
+  if (signal?.aborted) {
+    bitmap.close();
+    return CANCELLED_RESULT;
+  }
 
-          // Get image data
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
+  const worker = new Worker(new URL('./pixelation.worker.ts', import.meta.url));
+  
+  return new Promise((resolve) => {
+    const finish = (result: PixelationResult) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+      resolve(result);
+    };
+    const handleAbort = () => finish(CANCELLED_RESULT);
+    signal?.addEventListener('abort', handleAbort);
 
-          // Apply pixelation
-          const pixelatedData = pixelateImageData(data, canvas.width, canvas.height, {
-            pixelSize,
-            colorCount: 256,
-            algorithm: 'kmeans',
-            dithering: false,
-            legoEffect,
-            gridSize: gridSize || pixelSize
-          });
+    worker.onmessage = async (event: MessageEvent<PixelationWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress, message.stage);
+          break;
+        case 'error':
+          finish({ success: false, error: message.error });
+          break;
+        case 'done':
+          try {
+            const imageData = await fileToDataURL(message.blob);
+            if (signal?.aborted) return;
+            onProgress?.(1, 'encoding');
+            finish({
+              success: true,
+              imageData,
+              width: message.width,
+              height: message.height,
+              palette: message.palette,
+              bricks: message.bricks
+            });
+          } catch {
+            finish({ success: false, error: 'Failed to encode image' });
+          }
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      finish({ success: false, error: event.message || 'Pixelation worker failed' });
+    };
 
-          // Create new image data
-          const newImageData = new ImageData(new Uint8ClampedArray(pixelatedData), canvas.width, canvas.height);
-          ctx.putImageData(newImageData, 0, 0);
+    const request: PixelationWorkerRequest = { bitmap, options };
+    worker.postMessage(request, [bitmap]);
+  });
+}
 
-          // Convert to data URL
-          const result = canvas.toDataURL('image/png');
-          
+/**
+ * Fallback for browsers without OffscreenCanvas. Cancellation only takes effect
+ * before the pipeline starts, since it runs synchronously once the image is loaded.
+ */
+function convertOnMainThread(
+  imageFile: File,
+  options: PixelationOptions,
+  { onProgress, signal }: PixelationRunOptions
+): Promise<PixelationResult> {
+  const imageUrl = URL.createObjectURL(imageFile);
+  const img = new Image();
+  onProgress?.(0, 'decoding');
+  
+  return new Promise((resolve) => {
+    img.onload = () => {
+      try {
+        if (signal?.aborted) {
           URL.revokeObjectURL(imageUrl);
-          resolve({
-            success: true,
-            imageData: result
-          });
-        } catch (error) {
+          resolve(CANCELLED_RESULT);
+          return;
+        }
+
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+        
+        if (!ctx) {
           URL.revokeObjectURL(imageUrl);
           resolve({
             success: false,
-            error: error instanceof Error ? error.message : 'Failed to apply pixelation effect'
+            error: 'Could not get canvas context'
           });
+          return;
         }
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(imageUrl);
-        resolve({
-          success: false,
-          error: 'Failed to load image'
-        });
-      };
-      
-      img.src = imageUrl;
-    });
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to apply pixelation effect'
-    };
-  }
-}
 
-/**
- * Pixelate image data
- */
-function pixelateImageData(
-  data: Uint8ClampedArray,
-  width: number,
-  height: number,
-  options: PixelationOptions
-): Uint8ClampedArray {
-  const pixelSize = options.pixelSize;
-  const newData = new Uint8ClampedArray(data);
-  
-  for (let y = 0; y < height; y += pixelSize) {
-    for (let x = 0; x < width; x += pixelSize) {
-      // Get the average color of the pixel block
-      const blockWidth = Math.min(pixelSize, width - x);
-      const blockHeight = Math.min(pixelSize, height - y);
-      
-      let r = 0, g = 0, b = 0, a = 0;
-      let pixelCount = 0;
-      
-      for (let by = 0; by < blockHeight; by++) {
-        for (let bx = 0; bx < blockWidth; bx++) {
-          const pixelIndex = ((y + by) * width + (x + bx)) * 4;
-          r += data[pixelIndex];
-          g += data[pixelIndex + 1];
-          b += data[pixelIndex + 2];
-          a += data[pixelIndex + 3];
-          pixelCount++;
-        }
-      }
-      
-      // Calculate average color
-      r = Math.round(r / pixelCount);
-      g = Math.round(g / pixelCount);
-      b = Math.round(b / pixelCount);
-      a = Math.round(a / pixelCount);
-      
-      // Apply the average color to all pixels in the block
-      for (let by = 0; by < blockHeight; by++) {
-        for (let bx = 0; bx < blockWidth; bx++) {
-          const pixelIndex = ((y + by) * width + (x + bx)) * 4;
-          newData[pixelIndex] = r;
-          newData[pixelIndex + 1] = g;
-          newData[pixelIndex + 2] = b;
-          newData[pixelIndex + 3] = a;
-        }
-      }
-    }
-  }
-  
-  return newData;
-}
+        // Draw the original image to read its pixels
+        canvas.width = img.width;
+        canvas.height = img.height;
+        ctx.drawImage(img, 0, 0);
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
-/**
- * Reduce colors using simple quantization
- */
-function reduceColors(
-  data: Uint8ClampedArray,
-  colorCount: number,
-  algorithm: 'kmeans' | 'median-cut' | 'octree'
-): Uint8ClampedArray {
-  switch (algorithm) {
-    case 'kmeans':
-      return reduceColorsKMeans(data, colorCount);
-    case 'median-cut':
-      return reduceColorsMedianCut(data, colorCount);
-    case 'octree':
-      return reduceColorsOctree(data, colorCount);
-    default:
-      // Fallback to simple quantization
-      return reduceColorsSimple(data, colorCount);
-  }
-}
+        const pixelated = pixelate(imageData.data, canvas.width, canvas.height, options, onProgress);
 
-/**
- * Simple quantization - group similar colors
- */
-function reduceColorsSimple(data: Uint8ClampedArray, colorCount: number): Uint8ClampedArray {
-  const newData = new Uint8ClampedArray(data);
-  const step = Math.floor(256 / Math.sqrt(colorCount));
-  
-  for (let i = 0; i < data.length; i += 4) {
-    newData[i] = Math.floor(data[i] / step) * step;     // R
-    newData[i + 1] = Math.floor(data[i + 1] / step) * step; // G
-    newData[i + 2] = Math.floor(data[i + 2] / step) * step; // B
-    // Keep alpha unchanged
-  }
-  
-  return newData;
-}
+        canvas.width = pixelated.width;
+        canvas.height = pixelated.height;
+        ctx.putImageData(new ImageData(new Uint8ClampedArray(pixelated.rgba), pixelated.width, pixelated.height), 0, 0);
 
-/**
- * K-means clustering for color reduction
- */
-function reduceColorsKMeans(data: Uint8ClampedArray, colorCount: number): Uint8ClampedArray {
-  // Extract unique colors
-  const colors = new Map<string, number>();
-  for (let i = 0; i < data.length; i += 4) {
-    const color = `${data[i]},${data[i + 1]},${data[i + 2]}`;
-    colors.set(color, (colors.get(color) || 0) + 1);
-  }
-  
-  // Initialize centroids randomly
-  const colorArray = Array.from(colors.keys()).map(c => c.split(',').map(Number));
-  const centroids: number[][] = [];
-  for (let i = 0; i < colorCount && i < colorArray.length; i++) {
-    centroids.push([...colorArray[i % colorArray.length]]);
-  }
-  
-  // K-means iterations
-  for (let iter = 0; iter < 10; iter++) {
-    const clusters: number[][][] = Array(colorCount).fill(null).map(() => []);
-    
-    // Assign colors to nearest centroid
-    for (const color of colorArray) {
-      let minDist = Infinity;
-      let closestCentroid = 0;
-      
-      for (let i = 0; i < centroids.length; i++) {
-        const dist = Math.sqrt(
-          Math.pow(color[0] - centroids[i][0], 2) +
-          Math.pow(color[1] - centroids[i][1], 2) +
-          Math.pow(color[2] - centroids[i][2], 2)
-        );
-        if (dist < minDist) {
-          minDist = dist;
-          closestCentroid = i;
-        }
-      }
-      
-      clusters[closestCentroid].push(color);
-    }
-    
-    // Update centroids
-    for (let i = 0; i < centroids.length; i++) {
-      if (clusters[i].length > 0) {
-        centroids[i] = [
-          Math.round(clusters[i].reduce((sum, c) => sum + c[0], 0) / clusters[i].length),
-          Math.round(clusters[i].reduce((sum, c) => sum + c[1], 0) / clusters[i].length),
-          Math.round(clusters[i].reduce((sum, c) => sum + c[2], 0) / clusters[i].length)
-        ];
-      }
-    }
-  }
-  
-  // Map original colors to nearest centroids
-  const newData = new Uint8ClampedArray(data);
-  for (let i = 0; i < data.length; i += 4) {
-    const color = [data[i], data[i + 1], data[i + 2]];
-    let minDist = Infinity;
-    let closestCentroid = centroids[0];
-    
-    for (const centroid of centroids) {
-      const dist = Math.sqrt(
-        Math.pow(color[0] - centroid[0], 2) +
-        Math.pow(color[1] - centroid[1], 2) +
-        Math.pow(color[2] - centroid[2], 2)
-      );
-      if (dist < minDist) {
-        minDist = dist;
-        closestCentroid = centroid;
+        onProgress?.(0.95, 'encoding');
+        const result = canvas.toDataURL('image/png');
+        onProgress?.(1, 'encoding');
+        
+        URL.revokeObjectURL(imageUrl);
+        resolve({
+          success: true,
+          imageData: result,
+          width: pixelated.width,
+          height: pixelated.height,
+          palette: pixelated.palette,
+          bricks: pixelated.bricks
+        });
+      } catch (error) {
+        URL.revokeObjectURL(imageUrl);
+        resolve({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to pixelate image'
+        });
       }
-    }
-    
-    newData[i] = closestCentroid[0];
-    newData[i + 1] = closestCentroid[1];
-    newData[i + 2] = closestCentroid[2];
-  }
-  
-  return newData;
-}
-
-/**
- * Median cut algorithm for color reduction
- */
-function reduceColorsMedianCut(data: Uint8ClampedArray, colorCount: number): Uint8ClampedArray {
-  // Extract unique colors with frequency
-  const colorMap = new Map<string, { color: number[], count: number }>();
-  for (let i = 0; i < data.length; i += 4) {
-    const color = `${data[i]},${data[i + 1]},${data[i + 2]}`;
-    if (colorMap.has(color)) {
-      colorMap.get(color)!.count++;
-    } else {
-      colorMap.set(color, { color: [data[i], data[i + 1], data[i + 2]], count: 1 });
-    }
-  }
-  
-  const colors = Array.from(colorMap.values());
-  
-  // Median cut algorithm
-  const buckets = [colors];
-  while (buckets.length < colorCount && buckets.some(b => b.length > 1)) {
-    // Find bucket with largest range
-    let maxRange = 0;
-    let bucketIndex = 0;
-    let splitChannel = 0;
+    };
     
-    for (let i = 0; i < buckets.length; i++) {
-      const bucket = buckets[i];
-      if (bucket.length <= 1) continue;
-      
-      // Calculate range for each channel
-      const ranges = [0, 1, 2].map(channel => {
-        const values = bucket.map(c => c.color[channel]);
-        return Math.max(...values) - Math.min(...values);
+    img.onerror = () => {
+      URL.revokeObjectURL(imageUrl);
+      resolve({
+        success: false,
+        error: 'Failed to load image'
       });
-      
-      const maxChannelRange = Math.max(...ranges);
-      if (maxChannelRange > maxRange) {
-        maxRange = maxChannelRange;
-        bucketIndex = i;
-        splitChannel = ranges.indexOf(maxChannelRange);
-      }
-    }
-    
-    // Split the bucket
-    const bucket = buckets[bucketIndex];
-    bucket.sort((a, b) => a.color[splitChannel] - b.color[splitChannel]);
-    const median = Math.floor(bucket.length / 2);
-    
-    buckets[bucketIndex] = bucket.slice(0, median);
-    buckets.push(bucket.slice(median));
-  }
-  
-  // Calculate representative color for each bucket
-  const representativeColors = buckets.map(bucket => {
-    if (bucket.length === 0) return [0, 0, 0];
+    };
     
-    const totalCount = bucket.reduce((sum, c) => sum + c.count, 0);
-    return [
-      Math.round(bucket.reduce((sum, c) => sum + c.color[0] * c.count, 0) / totalCount),
-      Math.round(bucket.reduce((sum, c) => sum + c.color[1] * c.count, 0) / totalCount),
-      Math.round(bucket.reduce((sum, c) => sum + c.color[2] * c.count, 0) / totalCount)
-    ];
+    img.src = imageUrl;
   });
-  
-  // Map original colors to representative colors
-  const newData = new Uint8ClampedArray(data);
-  for (let i = 0; i < data.length; i += 4) {
-    const color = [data[i], data[i + 1], data[i + 2]];
-    let minDist = Infinity;
-    let closestColor = representativeColors[0];
-    
-    for (const repColor of representativeColors) {
-      const dist = Math.sqrt(
-        Math.pow(color[0] - repColor[0], 2) +
-        Math.pow(color[1] - repColor[1], 2) +
-        Math.pow(color[2] - repColor[2], 2)
-      );
-      if (dist < minDist) {
-        minDist = dist;
-        closestColor = repColor;
-      }
-    }
-    
-    newData[i] = closestColor[0];
-    newData[i + 1] = closestColor[1];
-    newData[i + 2] = closestColor[2];
-  }
-  
-  return newData;
 }
 
 /**
- * Octree algorithm for color reduction (simplified)
+ * Apply pixelation effect using Canvas API
  */
-function reduceColorsOctree(data: Uint8ClampedArray, colorCount: number): Uint8ClampedArray {
-  // Simplified octree implementation
-  // Group colors by quantizing to fewer bits per channel
-  const bitsPerChannel = Math.floor(Math.log2(colorCount) / 3);
-  const step = Math.floor(256 / (1 << bitsPerChannel));
-  
-  const newData = new Uint8ClampedArray(data);
-  for (let i = 0; i < data.length; i += 4) {
-    newData[i] = Math.floor(data[i] / step) * step;     // R
-    newData[i + 1] = Math.floor(data[i + 1] / step) * step; // G
-    newData[i + 2] = Math.floor(data[i + 2] / step) * step; // B
-    // Keep alpha unchanged
-  }
-  
-  return newData;
+export async function applyPixelationEffect(
+  imageFile: File,
+  pixelSize: number,
+  legoEffect: boolean = false,
+  gridSize?: number
+): Promise<PixelationResult> {
+  return convertToPixelArt(imageFile, {
+    ...getDefaultPixelationOptions(),
+    pixelSize,
+    colorCount: 256,
+    dithering: false,
+    legoEffect,
+    gridSize: gridSize || pixelSize
+  });
 }
 
 /**
- * Convert File to base64 data URL
+ * Convert a File or Blob to a base64 data URL
  */
-export function fileToDataURL(file: File): Promise<string> {
+export function fileToDataURL(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
@@ -498,17 +268,3 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
   
   return { valid: true };
 }
-
-/**
- * Get default pixelation options
- */
-export function getDefaultPixelationOptions(): PixelationOptions {
-  return {
-    pixelSize: 8,
-    colorCount: 16,
-    algorithm: 'kmeans',
-    dithering: true,
-    legoEffect: false,
-    gridSize: 8
-  };
-}
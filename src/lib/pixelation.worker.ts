@@ -0,0 +1,66 @@
+import { pixelate, PixelationOptions, PixelationStage } from './pixelation-core';
+import { PaletteEntry } from './palettes';
+import { LegoPartCount } from './lego';
+
+export interface PixelationWorkerRequest {
+  bitmap: ImageBitmap;
+  options: PixelationOptions;
+}
+
+export type PixelationWorkerResponse =
+  | { type: 'progress'; progress: number; stage: PixelationStage }
+  | { type: 'done'; blob: Blob; width: number; height: number; palette: PaletteEntry[]; bricks?: LegoPartCount[] }
+  | { type: 'error'; error: string };
+
+const worker = self as unknown as Worker;
+
+function post(message: PixelationWorkerResponse) {
+  worker.postMessage(message);
+}
+
+worker.onmessage = async (event: MessageEvent<PixelationWorkerRequest>) => {
+  const { bitmap, options } = event.data;
+  
+  try {
+    // Read the source pixels
+    const source = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const sourceCtx = source.getContext('2d');
+    if (!sourceCtx) {
+      post({ type: 'error', error: 'Could not get canvas context' });
+      return;
+    }
+    sourceCtx.drawImage(bitmap, 0, 0);
+    const imageData = sourceCtx.getImageData(0, 0, bitmap.width, bitmap.height);
+    bitmap.close();
+
+    const pixelated = pixelate(
+      imageData.data,
+      imageData.width,
+      imageData.height,
+      options,
+      (progress, stage) => post({ type: 'progress', progress, stage })
+    );
+
+    // Encode the result as PNG
+    post({ type: 'progress', progress: 0.95, stage: 'encoding' });
+    const output = new OffscreenCanvas(pixelated.width, pixelated.height);
+    const outputCtx = output.getContext('2d');
+    if (!outputCtx) {
+      post({ type: 'error', error: 'Could not get canvas context' });
+      return;
+    }
+    outputCtx.putImageData(new ImageData(new Uint8ClampedArray(pixelated.rgba), pixelated.width, pixelated.height), 0, 0);
+    const blob = await output.convertToBlob({ type: 'image/png' });
+
+    post({
+      type: 'done',
+      blob,
+      width: pixelated.width,
+      height: pixelated.height,
+      palette: pixelated.palette,
+      bricks: pixelated.bricks
+    });
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : 'Failed to pixelate image' });
+  }
+};
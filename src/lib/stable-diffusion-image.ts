@@ -0,0 +1,237 @@
+import {
+  createResponseError,
+  fetchFromProvider,
+  getRenderSize,
+  ImageGenerationError,
+  ImageProvider,
+  ImageProviderSettings,
+  resolveBaseUrl
+} from './image-provider';
+import { fileToDataURL } from './pixelation';
+
+const NEGATIVE_PROMPT = 'blurry, anti-aliased, smooth gradients, photo, realistic, jpeg artifacts, text, watermark';
+
+// ComfyUI runs queued prompts one after another, so allow for a wait before ours starts
+const COMFYUI_TIMEOUT_MS = 5 * 60 * 1000;
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+// Id of the SaveImage node in the workflow, whose output holds the result
+const SAVE_IMAGE_NODE = '9';
+// How far image-to-image may move away from the reference: 0 keeps it, 1 ignores it
+const IMAGE_TO_IMAGE_DENOISE = 0.6;
+
+/**
+ * A local Stable Diffusion server with the AUTOMATIC1111 web UI API
+ * (also served by Forge and SD.Next). Start it with --api and --cors-allow-origins.
+ */
+export const stableDiffusionProvider: ImageProvider = {
+  id: 'stable-diffusion',
+  name: 'Stable Diffusion (local)',
+  description: 'AUTOMATIC1111, Forge or SD.Next server started with --api',
+  // An empty model keeps the checkpoint currently loaded on the server
+  models: [],
+  apiKey: 'none',
+  defaultBaseUrl: 'http://127.0.0.1:7860',
+  // A local GPU renders one image at a time; parallel requests would only queue up
+  maxConcurrency: 1,
+
+  async generate({ prompt, referenceImage, width, height, settings, signal }) {
+    const checkpoint = settings.model?.trim();
+    const size = getRenderSize(width, height, getRenderBase(settings));
+    const parameters = {
+      prompt,
+      negative_prompt: NEGATIVE_PROMPT,
+      width: size.width,
+      height: size.height,
+      steps: 25,
+      cfg_scale: 7,
+      seed: -1,
+      ...(checkpoint ? { override_settings: { sd_model_checkpoint: checkpoint } } : {}),
+      // Image-to-image starts from the reference, cropped to the render size
+      ...(referenceImage ? {
+        init_images: [referenceImage.base64],
+        denoising_strength: IMAGE_TO_IMAGE_DENOISE,
+        resize_mode: 1
+      } : {})
+    };
+
+    const endpoint = referenceImage ? 'img2img' : 'txt2img';
+    const response = await fetchFromProvider(`${resolveBaseUrl(stableDiffusionProvider, settings)}/sdapi/v1/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(parameters),
+      signal
+    });
+    if (!response.ok) {
+      throw await createResponseError(response);
+    }
+
+    const result = await response.json();
+    const image = result?.images?.[0];
+    if (typeof image !== 'string') {
+      throw new ImageGenerationError({ kind: 'no-image', message: 'No image data received from the Stable Diffusion server' });
+    }
+    return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+  }
+};
+
+/**
+ * A local ComfyUI server running a basic text-to-image or image-to-image workflow with
+ * the chosen checkpoint. Start it with --enable-cors-header.
+ */
+export const comfyUIProvider: ImageProvider = {
+  id: 'comfyui',
+  name: 'ComfyUI (local)',
+  description: 'ComfyUI server; the model is a checkpoint file in models/checkpoints',
+  models: ['sd_xl_base_1.0.safetensors', 'v1-5-pruned-emaonly.safetensors'],
+  apiKey: 'none',
+  defaultBaseUrl: 'http://127.0.0.1:8188',
+  maxConcurrency: 1,
+
+  async generate({ prompt, referenceImage, width, height, settings, signal }) {
+    const baseUrl = resolveBaseUrl(comfyUIProvider, settings);
+    const size = getRenderSize(width, height, getRenderBase(settings));
+
+    // The reference has to be in ComfyUI's input folder before a workflow can load it
+    let uploadedImage: string | undefined;
+    if (referenceImage) {
+      const form = new FormData();
+      form.append('image', referenceImage.blob, `pixel-art-reference-${Date.now()}.png`);
+      form.append('overwrite', 'true');
+      const upload = await fetchFromProvider(`${baseUrl}/upload/image`, { method: 'POST', body: form, signal });
+      if (!upload.ok) {
+        throw await createResponseError(upload);
+      }
+      const { name, subfolder } = await upload.json();
+      uploadedImage = subfolder ? `${subfolder}/${name}` : name;
+    }
+
+    const workflow = createComfyWorkflow(
+      prompt,
+      settings.model?.trim() || comfyUIProvider.models[0],
+      size.width,
+      size.height,
+      uploadedImage
+    );
+
+    const queued = await fetchFromProvider(`${baseUrl}/prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow }),
+      signal
+    });
+    if (!queued.ok) {
+      throw await createResponseError(queued);
+    }
+    const { prompt_id: promptId } = await queued.json();
+    if (typeof promptId !== 'string') {
+      throw new ImageGenerationError({ kind: 'invalid-request', message: 'ComfyUI did not accept the workflow' });
+    }
+
+    // Poll the history until the workflow has produced its image
+    const deadline = Date.now() + COMFYUI_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await wait(COMFYUI_POLL_INTERVAL_MS, signal);
+      const history = await fetchFromProvider(`${baseUrl}/history/${encodeURIComponent(promptId)}`, { signal });
+      if (!history.ok) {
+        throw await createResponseError(history);
+      }
+      const entry = (await history.json())?.[promptId];
+      if (!entry) continue;
+      if (entry.status?.status_str === 'error') {
+        throw new ImageGenerationError({ kind: 'unknown', message: 'ComfyUI failed to run the workflow' });
+      }
+
+      const image = entry.outputs?.[SAVE_IMAGE_NODE]?.images?.[0];
+      if (!image) {
+        if (entry.status?.completed) {
+          throw new ImageGenerationError({ kind: 'no-image', message: 'No image data received from ComfyUI' });
+        }
+        continue;
+      }
+      const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder || '', type: image.type || 'output' });
+      const file = await fetchFromProvider(`${baseUrl}/view?${query}`, { signal });
+      if (!file.ok) {
+        throw await createResponseError(file);
+      }
+      return fileToDataURL(await file.blob());
+    }
+    throw new ImageGenerationError({
+      kind: 'unknown',
+      message: `ComfyUI did not finish within ${COMFYUI_TIMEOUT_MS / 60000} minutes`
+    });
+  }
+};
+
+/**
+ * ComfyUI's default text-to-image graph in API format. With an input image the empty
+ * latent is replaced by the scaled and encoded image, making it image-to-image.
+ */
+function createComfyWorkflow(
+  prompt: string,
+  checkpoint: string,
+  width: number,
+  height: number,
+  inputImage?: string
+): Record<string, unknown> {
+  const workflow: Record<string, { class_type: string; inputs: Record<string, unknown> }> = {
+    '3': {
+      class_type: 'KSampler',
+      inputs: {
+        seed: Math.floor(Math.random() * 2 ** 32),
+        steps: 25,
+        cfg: 7,
+        sampler_name: 'euler',
+        scheduler: 'normal',
+        denoise: 1,
+        model: ['4', 0],
+        positive: ['6', 0],
+        negative: ['7', 0],
+        latent_image: ['5', 0]
+      }
+    },
+    '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: checkpoint } },
+    '5': { class_type: 'EmptyLatentImage', inputs: { width, height, batch_size: 1 } },
+    '6': { class_type: 'CLIPTextEncode', inputs: { text: prompt, clip: ['4', 1] } },
+    '7': { class_type: 'CLIPTextEncode', inputs: { text: NEGATIVE_PROMPT, clip: ['4', 1] } },
+    '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+    [SAVE_IMAGE_NODE]: { class_type: 'SaveImage', inputs: { filename_prefix: 'pixel-art', images: ['8', 0] } }
+  };
+
+  if (inputImage) {
+    workflow['10'] = { class_type: 'LoadImage', inputs: { image: inputImage } };
+    workflow['11'] = {
+      class_type: 'ImageScale',
+      inputs: { image: ['10', 0], upscale_method: 'lanczos', width, height, crop: 'center' }
+    };
+    workflow['12'] = { class_type: 'VAEEncode', inputs: { pixels: ['11', 0], vae: ['4', 2] } };
+    delete workflow['5'];
+    workflow['3'].inputs.latent_image = ['12', 0];
+    workflow['3'].inputs.denoise = IMAGE_TO_IMAGE_DENOISE;
+  }
+  return workflow;
+}
+
+/**
+ * SDXL checkpoints are trained at 1024px, older ones at 512px
+ */
+function getRenderBase(settings: ImageProviderSettings): number {
+  return /xl/i.test(settings.model || '') ? 1024 : 512;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}